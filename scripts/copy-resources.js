@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+
+// tsc only emits JavaScript; copy the question, content and schema files the
+// loaders read from next to their compiled modules in dist/resources.
+import { cpSync } from 'fs';
+
+cpSync('src/resources', 'dist/resources', {
+  recursive: true,
+  filter: source => !/\.tsx?$/.test(source) && !source.includes('__tests__'),
+});
@@ -4,24 +4,29 @@ import { CLIMode, CLIFlags, ProjectConfig } from '../../core/types.js';
 import { QuestionWizard } from './QuestionWizard.js';
 import { GenerationProgress } from './GenerationProgress.js';
 import { ResultsDisplay } from './ResultsDisplay.js';
+import { ConceptList } from './ConceptList.js';
+import { ContentCheck } from './ContentCheck.js';
 import { useGeneration } from '../hooks/useGeneration.js';
+import { loadProjectConfig } from '../../core/config/ConfigLoader.js';
 
 interface CLIAppProps {
   mode: CLIMode;
   flags?: CLIFlags;
 }
 
-type AppState = 'questions' | 'preview' | 'generating' | 'results' | 'list';
+type AppState = 'config' | 'questions' | 'preview' | 'generating' | 'results' | 'list' | 'check';
 
 export const CLIApp: React.FC<CLIAppProps> = ({ mode, flags }) => {
   const [appState, setAppState] = useState<AppState>(() => {
     switch (mode) {
       case 'list':
         return 'list';
+      case 'check':
+        return 'check';
       case 'preview':
         return 'preview';
       case 'generate':
-        return flags?.config ? 'generating' : 'questions';
+        return 'config';
       default:
         return 'questions';
     }
@@ -30,21 +35,30 @@ export const CLIApp: React.FC<CLIAppProps> = ({ mode, flags }) => {
   const [config, setConfig] = useState<Partial<ProjectConfig>>({});
   const { generateInstructions, results, error } = useGeneration();
 
+  const [configError, setConfigError] = useState<string | null>(null);
+
+  // `generate` uses the --config file or an ai-rules.config.* file when there
+  // is one, and asks the questions otherwise
   useEffect(() => {
-    if (flags?.config) {
-      // Load config from file and start generation
-      loadConfigFromFile(flags.config);
-    }
-  }, [flags?.config]);
-
-  const loadConfigFromFile = async (configPath: string) => {
-    try {
-      // TODO: Implement config loading
-      console.log(`Loading config from ${configPath}`);
-    } catch (err) {
-      console.error('Failed to load config:', err);
+    if (appState !== 'config') {
+      return;
     }
-  };
+
+    loadProjectConfig(flags)
+      .then(loaded => {
+        if (!loaded) {
+          setAppState('questions');
+          return;
+        }
+        setConfig(loaded.config);
+        setAppState('generating');
+        generateInstructions(loaded.config, loaded.baseDir);
+      })
+      .catch(err => {
+        setConfigError(err instanceof Error ? err.message : 'Unknown error');
+        process.exitCode = 1;
+      });
+  }, []);
 
   const handleConfigComplete = (finalConfig: ProjectConfig) => {
     setConfig(finalConfig);
@@ -66,6 +80,14 @@ export const CLIApp: React.FC<CLIAppProps> = ({ mode, flags }) => {
     setAppState('questions');
   };
 
+  if (configError) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="red">❌ {configError}</Text>
+      </Box>
+    );
+  }
+
   if (error) {
     return (
       <Box flexDirection="column" padding={1}>
@@ -87,24 +109,11 @@ export const CLIApp: React.FC<CLIAppProps> = ({ mode, flags }) => {
 
       {/* Main Content */}
       <Box flexGrow={1}>
-        {appState === 'list' && (
-          <Box flexDirection="column" padding={1}>
-            <Text color="cyan">📋 Available Features</Text>
-            <Text>• Test-Driven Development (TDD)</Text>
-            <Text>• Strict Architecture Enforcement</Text>
-            <Text>• Functional Programming Guidelines</Text>
-            <Text>• TypeScript Standards</Text>
-            <Text>• Code Quality & Linting</Text>
-            <Text>• Accessibility Compliance</Text>
-            <Text>• Security Best Practices</Text>
-            <Text>• Performance Optimization</Text>
-            <Text>• CI/CD Integration</Text>
-            <Text>• Documentation Standards</Text>
-            <Box marginTop={1}>
-              <Text color="gray">Run 'ai-rules init' to configure your project</Text>
-            </Box>
-          </Box>
-        )}
+        {appState === 'config' && <Text color="gray">Loading configuration...</Text>}
+
+        {appState === 'list' && <ConceptList packs={flags?.pack} />}
+
+        {appState === 'check' && <ContentCheck flags={flags} />}
         
         {appState === 'questions' && (
           <QuestionWizard
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text } from 'ink';
+import { ContentLoader } from '../../resources/content/loaders/ContentLoader.js';
+import { ContentRule } from '../../resources/content/mapping/content-mapping.js';
+import { QuestionLoader } from '../../resources/questions/loaders/QuestionLoader.js';
+import { Question } from '../../resources/questions/types/QuestionTypes.js';
+import { createFormatRegistry } from '../../core/formats/index.js';
+import { loadPacks } from '../../resources/packs/index.js';
+import { BUILTIN_ORIGIN, LoadedPack, getPackOrigin } from '../../resources/packs/types/PackTypes.js';
+
+interface ConceptListProps {
+  // Pack specifiers given with --pack
+  packs?: string[];
+}
+
+interface ListedFormat {
+  id: string;
+  name: string;
+  origin: string;
+}
+
+interface Catalog {
+  packs: LoadedPack[];
+  concepts: ContentRule[];
+  questions: Question[];
+  formats: ListedFormat[];
+}
+
+const loadCatalog = async (specifiers: string[]): Promise<Catalog> => {
+  const packs = await loadPacks(specifiers);
+  const contentLoader = new ContentLoader();
+  const questionLoader = new QuestionLoader();
+  const formatRegistry = createFormatRegistry();
+
+  for (const pack of packs) {
+    contentLoader.addPack(pack);
+    questionLoader.addPack(pack);
+    await formatRegistry.loadPlugins(pack.formats, pack.rootPath, getPackOrigin(pack));
+  }
+
+  return {
+    packs,
+    concepts: await contentLoader.getContentRules(),
+    // Built-in questions are asked by `ai-rules init`; only list what packs and local files add
+    questions: (await questionLoader.getAllQuestions()).filter(question => question.origin !== BUILTIN_ORIGIN),
+    formats: formatRegistry.list().map(adapter => ({
+      id: adapter.id,
+      name: adapter.name,
+      origin: formatRegistry.getOrigin(adapter.id)!,
+    })),
+  };
+};
+
+export const ConceptList: React.FC<ConceptListProps> = ({ packs = [] }) => {
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCatalog(packs)
+      .then(setCatalog)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load concepts'));
+  }, []);
+
+  if (error) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="red">❌ {error}</Text>
+      </Box>
+    );
+  }
+
+  if (!catalog) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="cyan">🔄 Loading concepts...</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      {catalog.packs.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color="cyan">📦 Rule Packs</Text>
+          {catalog.packs.map(pack => (
+            <Text key={pack.name}>
+              • {getPackOrigin(pack)} <Text color="gray">({pack.source}){pack.description ? ` - ${pack.description}` : ''}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="cyan">📋 Available Concepts</Text>
+        {catalog.concepts.map(rule => (
+          <Text key={rule.id}>
+            • {rule.title || rule.id} <Text color="gray">[{rule.section}] {rule.origin}</Text>
+          </Text>
+        ))}
+      </Box>
+
+      {catalog.questions.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color="cyan">❓ Added Questions</Text>
+          {catalog.questions.map(question => (
+            <Text key={question.id}>
+              • {question.text} <Text color="gray">{question.origin}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box flexDirection="column">
+        <Text color="cyan">📄 Output Formats</Text>
+        {catalog.formats.map(format => (
+          <Text key={format.id}>
+            • {format.name} ({format.id}) <Text color="gray">{format.origin}</Text>
+          </Text>
+        ))}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="gray">Run 'ai-rules init' to configure your project</Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text } from 'ink';
+import { CLIFlags, ProjectConfig, ProjectConfigSchema } from '../../core/types.js';
+import { TemplateEngine } from '../../core/template-engine/TemplateEngine.js';
+import { ContentAnalysis } from '../../core/analysis/ContentAnalyzer.js';
+import { loadProjectConfig, mergeConfigWithFlags } from '../../core/config/ConfigLoader.js';
+import { applyProjectTypeDefaults } from '../../core/config/projectDefaults.js';
+
+interface ContentCheckProps {
+  flags?: CLIFlags;
+}
+
+type CheckResult = ContentAnalysis & { warnings: string[] };
+
+// The config `generate` would use: the config file merged with the flags, or a TypeScript project built from the flags alone
+const loadCheckConfig = async (flags: CLIFlags = {}): Promise<{ config: ProjectConfig; baseDir?: string }> => {
+  const loaded = await loadProjectConfig(flags);
+  if (loaded) {
+    return loaded;
+  }
+  return { config: ProjectConfigSchema.parse(applyProjectTypeDefaults(mergeConfigWithFlags({ projectType: 'typescript' }, flags))) };
+};
+
+/**
+ * Loads the content a config selects and reports duplicate rules, declared
+ * conflicts and content that could not be loaded. Conflicts and unloadable
+ * content set a failing exit code; duplicates are removed automatically on
+ * generation and only reported.
+ */
+export const ContentCheck: React.FC<ContentCheckProps> = ({ flags }) => {
+  const [result, setResult] = useState<CheckResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCheckConfig(flags)
+      .then(({ config, baseDir }) => new TemplateEngine(undefined, baseDir).checkContent(config))
+      .then(checkResult => {
+        if (checkResult.conflicts.length > 0 || checkResult.warnings.length > 0) {
+          process.exitCode = 1;
+        }
+        setResult(checkResult);
+      })
+      .catch(err => {
+        process.exitCode = 1;
+        setError(err instanceof Error ? err.message : 'Check failed');
+      });
+  }, []);
+
+  if (error) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="red">❌ {error}</Text>
+      </Box>
+    );
+  }
+
+  if (!result) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="cyan">🔄 Checking content...</Text>
+      </Box>
+    );
+  }
+
+  const passed = result.conflicts.length === 0 && result.warnings.length === 0;
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Text color="cyan">🔎 Checked {result.sections.length} concepts</Text>
+
+      {result.conflicts.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color="red">Conflicts ({result.conflicts.length}):</Text>
+          {result.conflicts.map(conflict => (
+            <Text key={`${conflict.id}:${conflict.conflictsWith}`}>
+              <Text color="red">  ✗ </Text>{conflict.id} conflicts with {conflict.conflictsWith}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {result.warnings.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color="red">Content Issues ({result.warnings.length}):</Text>
+          {result.warnings.map(warning => (
+            <Text key={warning}>
+              <Text color="red">  ✗ </Text>{warning}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {result.duplicates.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color="yellow">Duplicate Rules ({result.duplicates.length}, removed on generation):</Text>
+          {result.duplicates.map(duplicate => (
+            <Text key={`${duplicate.removedFrom}:${duplicate.rule}`}>
+              <Text color="yellow">  ⚠ </Text>{duplicate.rule}
+              <Text color="gray"> ({duplicate.removedFrom}, already in {duplicate.keptIn})</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        {passed
+          ? <Text color="green">✅ No conflicts found</Text>
+          : <Text color="red">❌ Content check failed</Text>}
+      </Box>
+    </Box>
+  );
+};
@@ -1,22 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { ProjectConfig, CLIFlags, ProjectConfigSchema } from '../../core/types.js';
-import { getAllQuestions, getNextQuestion } from '../../resources/questions/index.js';
+import { addQuestionPack, getAllQuestions, getNextQuestion } from '../../resources/questions/index.js';
+import { BUILTIN_ORIGIN, loadPacks } from '../../resources/packs/index.js';
+import { TOOLCHAIN_TEST_RUNNERS, getDefaultTestRunners, usesJsTooling } from '../../core/config/projectDefaults.js';
 import { QuestionDisplay } from './QuestionDisplay.js';
 import { ProgressBar } from './ProgressBar.js';
 
+// 'all' is passed through so generation expands it after plugin and pack formats are registered
 const getOutputFormats = (formats: string[] | undefined): string[] => {
-  // Handle undefined, null, or empty array - use question default of ['all']
-  if (!formats || formats.length === 0) {
-    return ['claude', 'vscode', 'readme', 'cursor', 'copilot', 'roocode']; // Default to all formats like the question default
+  if (!formats || formats.length === 0 || formats.includes('all')) {
+    return ['all'];
   }
-  
-  // Handle 'all' selection - expand to all available formats
-  if (formats.includes('all')) {
-    return ['claude', 'vscode', 'readme', 'cursor', 'copilot', 'roocode'];
-  }
-  
-  // Return user-selected formats
   return formats;
 };
 
@@ -41,6 +36,10 @@ export const QuestionWizard: React.FC<QuestionWizardProps> = ({
   useEffect(() => {
     const loadQuestions = async () => {
       try {
+        // Packs given with --pack add their questions to the built-in ones
+        for (const pack of await loadPacks(flags?.pack || [])) {
+          addQuestionPack(pack);
+        }
         const loadedQuestions = await getAllQuestions();
         setQuestions(loadedQuestions);
         
@@ -117,27 +116,53 @@ export const QuestionWizard: React.FC<QuestionWizardProps> = ({
 
   const transformAnswersToConfig = (rawAnswers: Record<string, any>): any => {
     const processedFormats = getOutputFormats(rawAnswers.outputFormats);
+    const projectType = rawAnswers.projectType || 'typescript';
+    // Every question's default is seeded, so language-specific answers are only
+    // read for the project type they were asked for
+    const isPython = projectType === 'python';
+    const jsTooling = usesJsTooling(projectType);
+    const pythonLinting: string[] = isPython ? rawAnswers.pythonLinting || [] : [];
     
     return {
-      projectType: rawAnswers.projectType || 'typescript',
+      projectType,
       philosophy: {
         tdd: rawAnswers.followTDD ?? true,
         strictArchitecture: rawAnswers.strictArchitecture ?? true,
         functionalProgramming: rawAnswers.functionalProgramming ?? true,
       },
       tools: {
-        eslint: rawAnswers.linting?.includes('eslint') ?? true,
-        stylelint: rawAnswers.linting?.includes('stylelint') ?? false,
+        eslint: jsTooling && (rawAnswers.linting?.includes('eslint') ?? true),
+        stylelint: jsTooling && (rawAnswers.linting?.includes('stylelint') ?? false),
+        prettier: jsTooling && (rawAnswers.linting?.includes('prettier') ?? false),
+        ruff: pythonLinting.includes('ruff'),
+        black: pythonLinting.includes('black'),
+        flake8: pythonLinting.includes('flake8'),
+        mypy: pythonLinting.includes('mypy'),
+        golangciLint: projectType === 'go' && (rawAnswers.golangciLint ?? true),
+        clippy: projectType === 'rust' && (rawAnswers.clippy ?? true),
+        checkstyle: projectType === 'java' && (rawAnswers.checkstyle ?? true),
         testing: (() => {
+          if (TOOLCHAIN_TEST_RUNNERS[projectType]) {
+            return [TOOLCHAIN_TEST_RUNNERS[projectType]];
+          }
+          if (isPython) {
+            const filtered = (rawAnswers.pythonTesting || []).filter((item: any) =>
+              ['pytest', 'unittest'].includes(item)
+            );
+            return filtered.length > 0 ? filtered : getDefaultTestRunners(projectType);
+          }
           const validFrameworks = ['vitest', 'jest', 'react-testing-library', 'cypress', 'playwright'];
-          const filtered = (rawAnswers.testingFramework || ['vitest', 'react-testing-library']).filter((item: any) => 
+          const filtered = (rawAnswers.testingFramework || []).filter((item: any) => 
             validFrameworks.includes(item)
           );
-          return filtered.length > 0 ? filtered : ['vitest', 'react-testing-library'];
+          return filtered.length > 0 ? filtered : getDefaultTestRunners(projectType);
         })(),
-        stateManagement: rawAnswers.stateManagement,
-        uiFramework: rawAnswers.uiFramework,
+        packageManager: isPython ? rawAnswers.packageManager : undefined,
+        buildTool: projectType === 'java' ? rawAnswers.buildTool : undefined,
+        stateManagement: jsTooling ? rawAnswers.stateManagement : undefined,
+        uiFramework: jsTooling ? rawAnswers.uiFramework : undefined,
         i18n: rawAnswers.i18n ?? false,
+        i18nLibrary: rawAnswers.i18n ? rawAnswers.i18nLibrary : undefined,
       },
       quality: {
         accessibility: rawAnswers.accessibility ?? true,
@@ -150,12 +175,39 @@ export const QuestionWizard: React.FC<QuestionWizardProps> = ({
         logging: rawAnswers.logging ?? false,
         monitoring: rawAnswers.monitoring ?? false,
         documentation: rawAnswers.documentation ?? true,
+        // Follow-up answers only count when the question they follow was answered yes
+        ciProvider: rawAnswers.cicd ? rawAnswers.ciProvider : undefined,
+        logger: rawAnswers.logging ? rawAnswers.logger : undefined,
+        monitoringProvider: rawAnswers.monitoring ? rawAnswers.monitoringProvider : undefined,
       },
       output: {
         formats: processedFormats,
         projectName: rawAnswers.projectName || 'My Project',
         customizations: {},
+        deterministic: flags?.deterministic,
+        formatOptions: {
+          claude: {
+            settings: rawAnswers.claudeExtras?.includes('settings') ?? false,
+            commands: rawAnswers.claudeExtras?.includes('commands') ?? false,
+            hooks: rawAnswers.claudeExtras?.includes('hooks') ?? false,
+            modular: rawAnswers.claudeExtras?.includes('modular') ?? false,
+          },
+          roocode: {
+            customModes: rawAnswers.rooCustomModes || [],
+          },
+          aider: {
+            config: rawAnswers.aiderConfig ?? false,
+          },
+        },
       },
+      packs: flags?.pack || [],
+      // Questions from packs and from user or project files are not mapped to config
+      // fields; their content reads them from `answers`
+      answers: Object.fromEntries(
+        questions
+          .filter(question => question.origin !== BUILTIN_ORIGIN && rawAnswers[question.id] !== undefined)
+          .map(question => [question.id, rawAnswers[question.id]])
+      ),
     };
   };
 
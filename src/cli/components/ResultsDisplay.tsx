@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
-import { GeneratedOutput, ProjectConfig } from '../../core/types.js';
+import { GeneratedOutput, OutputFile, ProjectConfig } from '../../core/types.js';
+import { estimateTokens } from '../../core/template-engine/tokenBudget.js';
 
 interface ResultsDisplayProps {
   results: GeneratedOutput;
@@ -17,6 +18,8 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   const [showDetails, setShowDetails] = useState(false);
 
   const outputFiles = getGeneratedFiles(results);
+  const trimmedFormats = Object.entries(results.metadata.tokens)
+    .filter(([, usage]) => usage.condensed.length > 0 || usage.dropped.length > 0 || (usage.budget && usage.tokens > usage.budget));
 
   useInput((input, key) => {
     if (key.leftArrow || key.rightArrow) {
@@ -52,11 +55,32 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
           <Box key={file.name} marginLeft={2}>
             <Text color="green">✓ </Text>
             <Text color="white">{file.name}</Text>
-            <Text color="gray"> ({file.size})</Text>
+            <Text color="gray"> ({file.size}, ~{file.tokens} tokens)</Text>
           </Box>
         ))}
       </Box>
 
+      {/* Token Budgets */}
+      {trimmedFormats.length > 0 && (
+        <Box flexDirection="column" marginBottom={2}>
+          <Text bold color="yellow">Trimmed to Fit Token Budgets:</Text>
+          {trimmedFormats.map(([formatId, usage]) => (
+            <Box key={formatId} flexDirection="column" marginLeft={2}>
+              <Text>
+                <Text color={usage.tokens > usage.budget! ? 'red' : 'white'}>{formatId}</Text>
+                <Text color="gray">: ~{usage.tokens}/{usage.budget} tokens</Text>
+              </Text>
+              {usage.condensed.length > 0 && (
+                <Text color="gray">  condensed: {usage.condensed.join(', ')}</Text>
+              )}
+              {usage.dropped.length > 0 && (
+                <Text color="gray">  dropped: {usage.dropped.join(', ')}</Text>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+
       {/* Concepts Used */}
       <Box flexDirection="column" marginBottom={2}>
         <Text bold color="yellow">
@@ -76,13 +100,56 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         </Box>
       </Box>
 
+      {/* Content Warnings */}
+      {results.metadata.warnings.length > 0 && (
+        <Box flexDirection="column" marginBottom={2}>
+          <Text bold color="yellow">Skipped Content ({results.metadata.warnings.length}):</Text>
+          {results.metadata.warnings.map(warning => (
+            <Box key={warning} marginLeft={2}>
+              <Text color="yellow">⚠ </Text>
+              <Text color="gray">{warning}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {/* Conflicts and Duplicates */}
+      {results.metadata.conflicts.length > 0 && (
+        <Box flexDirection="column" marginBottom={2}>
+          <Text bold color="red">Conflicting Concepts ({results.metadata.conflicts.length}):</Text>
+          {results.metadata.conflicts.map(conflict => (
+            <Box key={`${conflict.id}:${conflict.conflictsWith}`} marginLeft={2}>
+              <Text color="red">✗ </Text>
+              <Text>{formatConceptName(conflict.id)} conflicts with {formatConceptName(conflict.conflictsWith)}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+      {results.metadata.disabledRules.length > 0 && (
+        <Box marginBottom={1}>
+          <Text color="gray">
+            Left out {results.metadata.disabledRules.length} rule(s) turned off in output.customizations
+          </Text>
+        </Box>
+      )}
+      {results.metadata.duplicates.length > 0 && (
+        <Box marginBottom={2}>
+          <Text color="gray">
+            Removed {results.metadata.duplicates.length} duplicate rule(s) already stated by another concept
+          </Text>
+        </Box>
+      )}
+
       {/* Project Summary */}
       <Box flexDirection="column" marginBottom={2}>
         <Text bold color="yellow">Project Summary:</Text>
         <Text>• Name: <Text color="green">{config.output.projectName}</Text></Text>
         <Text>• Type: <Text color="green">{config.projectType}</Text></Text>
         <Text>• TDD: <Text color={config.philosophy.tdd ? 'green' : 'red'}>{config.philosophy.tdd ? 'Enabled' : 'Disabled'}</Text></Text>
-        <Text>• Generated: <Text color="green">{results.metadata.generatedAt.toLocaleString()}</Text></Text>
+        {results.metadata.generatedAt && (
+          <Text>• Generated: <Text color="green">{results.metadata.generatedAt.toLocaleString()}</Text></Text>
+        )}
+        <Text>• Input hash: <Text color="green">{results.metadata.inputHash}</Text>{results.metadata.deterministic ? ' (deterministic)' : ''}</Text>
       </Box>
 
       {/* Details Toggle */}
@@ -96,22 +163,14 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
       {showDetails && (
         <Box flexDirection="column" marginBottom={2} borderStyle="single" borderColor="gray" padding={1}>
           <Text bold color="yellow">Content Preview (first 300 chars):</Text>
-          {results.claude && (
-            <Box flexDirection="column" marginTop={1}>
-              <Text bold color="cyan">CLAUDE.md:</Text>
+          {getPreviewFiles(results).map(file => (
+            <Box key={file.path} flexDirection="column" marginTop={1}>
+              <Text bold color="cyan">{file.path}:</Text>
               <Text color="gray">
-                {results.claude.substring(0, 300)}...
+                {file.content.substring(0, 300)}...
               </Text>
             </Box>
-          )}
-          {results.readme && (
-            <Box flexDirection="column" marginTop={1}>
-              <Text bold color="cyan">README.md:</Text>
-              <Text color="gray">
-                {results.readme.substring(0, 300)}...
-              </Text>
-            </Box>
-          )}
+          ))}
         </Box>
       )}
 
@@ -121,7 +180,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         <Text>1. Review the generated files in your project directory</Text>
         <Text>2. Customize the instructions to fit your specific needs</Text>
         <Text>3. Share with your team or AI assistant</Text>
-        {config.output.formats.includes('vscode') && (
+        {results.formats.vscode && (
           <Text>4. Import VS Code settings to apply configurations</Text>
         )}
       </Box>
@@ -155,29 +214,19 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   );
 };
 
-const getGeneratedFiles = (results: GeneratedOutput): Array<{ name: string; size: string }> => {
-  const files: Array<{ name: string; size: string }> = [];
-
-  if (results.claude) {
-    files.push({ name: 'CLAUDE.md', size: `${Math.round(results.claude.length / 1024)}KB` });
-  }
-  if (results.vscode) {
-    files.push({ name: '.vscode/settings.json', size: `${Math.round(results.vscode.length / 1024)}KB` });
-  }
-  if (results.readme) {
-    files.push({ name: 'README.md', size: `${Math.round(results.readme.length / 1024)}KB` });
-  }
-  if (results.cursor) {
-    files.push({ name: '.cursorrules', size: `${Math.round(results.cursor.length / 1024)}KB` });
-  }
-  if (results.copilot) {
-    files.push({ name: '.github/copilot-instructions.md', size: `${Math.round(results.copilot.length / 1024)}KB` });
-  }
-  if (results.roocode) {
-    files.push({ name: '.roo/rules/instructions.md', size: `${Math.round(results.roocode.length / 1024)}KB` });
-  }
-
-  return files;
+const getGeneratedFiles = (results: GeneratedOutput): Array<{ name: string; size: string; tokens: number }> => {
+  return Object.values(results.formats)
+    .flat()
+    .map(file => ({
+      name: file.path,
+      size: `${Math.round(file.content.length / 1024)}KB`,
+      tokens: estimateTokens(file.content),
+    }));
+};
+
+// Preview the main file of the formats people read first
+const getPreviewFiles = (results: GeneratedOutput): OutputFile[] => {
+  return ['claude', 'readme'].flatMap(formatId => results.formats[formatId]?.slice(0, 1) ?? []);
 };
 
 const formatConceptName = (concept: string): string => {
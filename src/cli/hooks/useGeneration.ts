@@ -5,7 +5,7 @@ import { FileGenerator } from '../../core/template-engine/FileGenerator.js';
 import path from 'path';
 
 interface UseGenerationReturn {
-  generateInstructions: (config: ProjectConfig) => Promise<void>;
+  generateInstructions: (config: ProjectConfig, baseDir?: string) => Promise<void>;
   isGenerating: boolean;
   results: GeneratedOutput | null;
   error: string | null;
@@ -20,7 +20,7 @@ export const useGeneration = (): UseGenerationReturn => {
   const [progress, setProgress] = useState(0);
   const [generatedFiles, setGeneratedFiles] = useState<any[] | null>(null);
 
-  const generateInstructions = useCallback(async (config: ProjectConfig) => {
+  const generateInstructions = useCallback(async (config: ProjectConfig, baseDir?: string) => {
     setIsGenerating(true);
     setError(null);
     setProgress(0);
@@ -28,7 +28,8 @@ export const useGeneration = (): UseGenerationReturn => {
     setGeneratedFiles(null);
 
     try {
-      const templateEngine = new TemplateEngine();
+      // Plugins and packs of a config file are relative to its directory
+      const templateEngine = new TemplateEngine(undefined, baseDir);
       
       const generatedOutput = await templateEngine.generateInstructions(config);
       
@@ -5,31 +5,37 @@ import { render } from 'ink';
 import { Command } from 'commander';
 import { CLIApp } from './components/CLIApp.js';
 import { CLIMode, CLIFlags } from '../core/types.js';
+import { defaultFormatRegistry } from '../core/formats/index.js';
+import { GENERATOR_VERSION } from '../core/template-engine/reproducibility.js';
 
 const program = new Command();
 
 program
   .name('ai-rules')
   .description('Generate AI coding assistant instructions for your project (Claude, Copilot, Cursor, etc.)')
-  .version('1.0.0');
+  .version(GENERATOR_VERSION);
 
 program
   .command('init')
   .description('Start interactive setup wizard')
-  .action(() => {
-    render(createElement(CLIApp, { mode: "interactive" }));
+  .option('--pack <source...>', 'rule packs to load (directories or package names)')
+  .action((options: CLIFlags) => {
+    render(createElement(CLIApp, { mode: "interactive", flags: options }));
   });
 
 program
   .command('generate')
   .description('Generate instructions with flags')
-  .option('-t, --type <type>', 'project type (typescript, javascript, python)')
+  .option('-t, --type <type>', 'project type (typescript, javascript, python, go, rust, java)')
   .option('--tdd', 'enable test-driven development')
   .option('--strict-arch', 'enable strict architecture enforcement')
-  .option('-o, --output <formats>', 'output formats (claude,vscode,readme,cursor,all)', 'all')
-  .option('-c, --config <path>', 'config file path')
+  .option('-o, --output <formats>', `output formats (${[...defaultFormatRegistry.ids(), 'all'].join(',')}; default all)`)
+  .option('-c, --config <path>', 'config file (JSON, YAML, JS or TS); defaults to ai-rules.config.* in the current directory')
   .option('-s, --silent', 'silent mode (no interactive prompts)')
   .option('-p, --preview', 'preview mode (don\'t generate files)')
+  .option('--pack <source...>', 'rule packs to load (directories or package names)')
+  .option('--deterministic', 'leave timestamps out so unchanged inputs give identical files (default in CI)')
+  .option('--no-deterministic', 'include the generation date even in CI')
   .action((options: CLIFlags) => {
     const mode: CLIMode = options.preview ? 'preview' : 'generate';
     render(createElement(CLIApp, { mode, flags: options }));
@@ -37,9 +43,22 @@ program
 
 program
   .command('list')
-  .description('List available concepts and their descriptions')
-  .action(() => {
-    render(createElement(CLIApp, { mode: "list" }));
+  .description('List available concepts, formats and rule packs with their origin')
+  .option('--pack <source...>', 'rule packs to load (directories or package names)')
+  .action((options: CLIFlags) => {
+    render(createElement(CLIApp, { mode: "list", flags: options }));
+  });
+
+program
+  .command('check')
+  .description('Report conflicting and duplicate rules; exits with 1 on conflicts or invalid content')
+  .option('-t, --type <type>', 'project type')
+  .option('--tdd', 'enable test-driven development')
+  .option('--strict-arch', 'enable strict architecture enforcement')
+  .option('-c, --config <path>', 'config file (JSON, YAML, JS or TS); defaults to ai-rules.config.* in the current directory')
+  .option('--pack <source...>', 'rule packs to load (directories or package names)')
+  .action((options: CLIFlags) => {
+    render(createElement(CLIApp, { mode: "check", flags: options }));
   });
 
 program
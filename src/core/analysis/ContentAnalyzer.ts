@@ -0,0 +1,100 @@
+import { ContentConflict, DuplicateRule } from '../types.js';
+import { ContentSection } from '../../resources/content/types/ContentTypes.js';
+import { ListItem, getRuleText, mapRuleItems, parseMarkdown, renderMarkdown } from '../markdown/Markdown.js';
+import { stripRuleMarkers } from '../rules/RuleSettings.js';
+
+// Rules sharing at least this share of their words are treated as the same rule
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+export interface ContentAnalysis {
+  // The input sections with duplicate rules removed
+  sections: ContentSection[];
+  duplicates: DuplicateRule[];
+  conflicts: ContentConflict[];
+}
+
+interface KeptRule {
+  text: string;
+  words: Set<string>;
+  normalized: string;
+  sectionId: string;
+}
+
+// Compare rules by their words only: no markup, punctuation or case
+export const normalizeRule = (rule: string): string => {
+  return rule
+    .replace(/[*_`~]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Jaccard similarity of the rules' word sets, from 0 (nothing shared) to 1
+export const ruleSimilarity = (a: Set<string>, b: Set<string>): number => {
+  const shared = [...a].filter(word => b.has(word)).length;
+  const total = new Set([...a, ...b]).size;
+  return total === 0 ? 1 : shared / total;
+};
+
+const findConflicts = (sections: ContentSection[]): ContentConflict[] => {
+  const ids = new Set(sections.map(section => section.id));
+  const conflicts: ContentConflict[] = [];
+
+  for (const section of sections) {
+    for (const other of section.conflictsWith || []) {
+      const reported = conflicts.some(conflict => conflict.id === other && conflict.conflictsWith === section.id);
+      if (ids.has(other) && !reported) {
+        conflicts.push({ id: section.id, conflictsWith: other });
+      }
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * Look across the sections for rules that say the same thing and for content
+ * that declares a conflict with other included content. Sections are expected
+ * in output order: the first occurrence of a rule is kept and later ones are
+ * removed from their section.
+ */
+export const analyzeContent = (sections: ContentSection[]): ContentAnalysis => {
+  const kept: KeptRule[] = [];
+  const duplicates: DuplicateRule[] = [];
+
+  const isDuplicate = (item: ListItem, sectionId: string): boolean => {
+    const text = stripRuleMarkers(getRuleText(item));
+    if (!text) {
+      return false;
+    }
+
+    const normalized = normalizeRule(text);
+    const words = new Set(normalized.split(' '));
+    for (const rule of kept) {
+      const similarity = rule.normalized === normalized ? 1 : ruleSimilarity(rule.words, words);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        duplicates.push({ rule: text, keptIn: rule.sectionId, removedFrom: sectionId, similarity: Math.round(similarity * 100) / 100 });
+        return true;
+      }
+    }
+
+    kept.push({ text, words, normalized, sectionId });
+    return false;
+  };
+
+  const dedupedSections = sections.map(section => {
+    let changed = false;
+    const deduped = mapRuleItems(parseMarkdown(section.content), item => {
+      if (!isDuplicate(item, section.id)) {
+        return item;
+      }
+      changed = true;
+      return null;
+    });
+
+    return changed ? { ...section, content: renderMarkdown(deduped) } : section;
+  });
+
+  return { sections: dedupedSections, duplicates, conflicts: findConflicts(sections) };
+};
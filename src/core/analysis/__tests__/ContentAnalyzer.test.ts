@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeContent, normalizeRule } from '../ContentAnalyzer.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+
+const section = (id: string, content: string, conflictsWith?: string[]): ContentSection => ({
+  id,
+  section: 'tools',
+  content,
+  priority: 1,
+  apply: 'always',
+  conflictsWith,
+});
+
+describe('analyzeContent', () => {
+  it('should remove exact and near-duplicate rules from later sections', () => {
+    const result = analyzeContent([
+      section('testing', '### Testing\n- Write tests before implementation code\n- Keep unit tests fast and isolated'),
+      section('tdd', '### TDD\n- **Write tests before implementation code.**\n- Run the full suite before committing\n- Keep the unit tests fast and isolated'),
+    ]);
+
+    expect(result.sections[0].content).toBe('### Testing\n- Write tests before implementation code\n- Keep unit tests fast and isolated');
+    expect(result.sections[1].content).toBe('### TDD\n- Run the full suite before committing');
+    expect(result.duplicates).toEqual([
+      { rule: '**Write tests before implementation code.**', keptIn: 'testing', removedFrom: 'tdd', similarity: 1 },
+      { rule: 'Keep the unit tests fast and isolated', keptIn: 'testing', removedFrom: 'tdd', similarity: 0.86 },
+    ]);
+  });
+
+  it('should leave sections without duplicates untouched', () => {
+    const sections = [
+      section('a', '### A\n\nSome prose.\n\n- First rule'),
+      section('b', '- Second, unrelated rule'),
+    ];
+
+    const result = analyzeContent(sections);
+
+    expect(result.sections[0]).toBe(sections[0]);
+    expect(result.sections[1]).toBe(sections[1]);
+    expect(result.duplicates).toEqual([]);
+  });
+
+  it('should report each declared conflict between included sections once', () => {
+    const result = analyzeContent([
+      section('oop', '- Use classes', ['functional', 'missing']),
+      section('functional', '- Use pure functions', ['oop']),
+    ]);
+
+    expect(result.conflicts).toEqual([{ id: 'oop', conflictsWith: 'functional' }]);
+  });
+});
+
+describe('normalizeRule', () => {
+  it('should ignore markup, punctuation and case', () => {
+    expect(normalizeRule('**Use `const`**, not `let`!')).toBe('use const not let');
+  });
+});
@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { CLIFlags, ProjectConfig, ProjectConfigSchema } from '../types.js';
+import { applyProjectTypeDefaults } from './projectDefaults.js';
+
+// Looked up in the working directory in this order when --config is not given
+export const CONFIG_FILE_NAMES = [
+  'ai-rules.config.json',
+  'ai-rules.config.yaml',
+  'ai-rules.config.yml',
+  'ai-rules.config.js',
+  'ai-rules.config.mjs',
+  'ai-rules.config.ts',
+];
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts'];
+
+export interface LoadedConfig {
+  config: ProjectConfig;
+  // Absolute path of the file the config was read from
+  path: string;
+  // Directory of that file, which plugin and pack paths in it are relative to
+  baseDir: string;
+}
+
+export const findConfigFile = async (dir: string = process.cwd()): Promise<string | null> => {
+  for (const name of CONFIG_FILE_NAMES) {
+    const file = path.join(dir, name);
+    try {
+      if ((await fs.stat(file)).isFile()) {
+        return file;
+      }
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+};
+
+/**
+ * Read a config file without validating it. JSON and YAML files hold the
+ * config itself; JavaScript and TypeScript modules export it as their default
+ * export. TypeScript modules need a runtime that can import them, such as
+ * Node.js 22.6+ with type stripping or tsx.
+ */
+export const readConfigFile = async (file: string): Promise<unknown> => {
+  const extension = path.extname(file).toLowerCase();
+
+  if (MODULE_EXTENSIONS.includes(extension)) {
+    let configModule: any;
+    try {
+      configModule = await import(pathToFileURL(file).href);
+    } catch (error) {
+      const hint = extension.endsWith('ts') ? '; TypeScript configs need Node.js 22.6+ or tsx, or use a .js or .json config' : '';
+      throw new Error(`Failed to load ${file}: ${error instanceof Error ? error.message : 'Unknown error'}${hint}`);
+    }
+    return configModule.default;
+  }
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    return extension === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Failed to parse ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * Apply command line flags on top of a raw config; flags that were given win
+ * over the file, and packs from --pack are added to the file's packs.
+ */
+export const mergeConfigWithFlags = (raw: Record<string, any>, flags: CLIFlags = {}): Record<string, any> => {
+  const merged: Record<string, any> = { ...raw };
+
+  if (flags.type) {
+    merged.projectType = flags.type;
+  }
+  if (flags.tdd !== undefined) {
+    merged.philosophy = { ...merged.philosophy, tdd: flags.tdd };
+  }
+  if (flags.strictArch !== undefined) {
+    merged.philosophy = { ...merged.philosophy, strictArchitecture: flags.strictArch };
+  }
+  if (flags.output) {
+    merged.output = { ...merged.output, formats: flags.output.split(',').map(format => format.trim()).filter(Boolean) };
+  }
+  if (flags.deterministic !== undefined) {
+    merged.output = { ...merged.output, deterministic: flags.deterministic };
+  }
+  if (flags.pack && flags.pack.length > 0) {
+    merged.packs = [...(Array.isArray(raw.packs) ? raw.packs : []), ...flags.pack];
+  }
+
+  return merged;
+};
+
+/**
+ * Validate a raw config against ProjectConfigSchema. Every problem is
+ * reported with its path, e.g. `tools.testing.0: Invalid enum value`.
+ */
+export const parseProjectConfig = (raw: unknown, file: string): ProjectConfig => {
+  const result = ProjectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid config in ${file}: ${issues.join('; ')}`);
+  }
+  return result.data;
+};
+
+/**
+ * Load the config for `generate`: the file given with --config (relative to
+ * `cwd`), or else the first ai-rules.config.* file in `cwd`, merged with the
+ * flags and completed with the defaults of its project type. Returns null
+ * when no file was given or found.
+ */
+export const loadProjectConfig = async (flags: CLIFlags = {}, cwd: string = process.cwd()): Promise<LoadedConfig | null> => {
+  const file = flags.config ? path.resolve(cwd, flags.config) : await findConfigFile(cwd);
+  if (!file) {
+    return null;
+  }
+  if (flags.config && !(await fs.stat(file).catch(() => null))?.isFile()) {
+    throw new Error(`Config file not found: ${flags.config}`);
+  }
+
+  const name = path.relative(cwd, file) || file;
+  const raw = await readConfigFile(file);
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid config in ${name}: expected an object`);
+  }
+  const merged = mergeConfigWithFlags(raw as Record<string, any>, flags);
+  return { config: parseProjectConfig(applyProjectTypeDefaults(merged), name), path: file, baseDir: path.dirname(file) };
+};
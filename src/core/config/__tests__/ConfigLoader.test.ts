@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { findConfigFile, loadProjectConfig, mergeConfigWithFlags } from '../ConfigLoader.js';
+
+describe('ConfigLoader', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  const writeConfig = (file: string, content: string) => fs.writeFile(path.join(projectPath, file), content);
+
+  it('should return null when there is no config file', async () => {
+    expect(await loadProjectConfig({}, projectPath)).toBeNull();
+  });
+
+  it('should load a YAML config given with --config and apply the schema defaults', async () => {
+    await writeConfig('rules.yaml', 'projectType: python\ntools:\n  testing: [pytest]\n  ruff: true\n');
+
+    const loaded = await loadProjectConfig({ config: 'rules.yaml' }, projectPath);
+
+    expect(loaded?.path).toBe(path.join(projectPath, 'rules.yaml'));
+    expect(loaded?.config.tools).toMatchObject({ testing: ['pytest'], ruff: true, prettier: false });
+    expect(loaded?.config.output.formats).toEqual(['all']);
+  });
+
+  it('should give Go and Python configs the tools of their language instead of the JavaScript defaults', async () => {
+    await writeConfig('go.yaml', 'projectType: go\ntools:\n  uiFramework: react\n  stateManagement: redux\n');
+    await writeConfig('python.json', '{ "projectType": "python", "tools": { "testing": ["unittest"], "mypy": false } }');
+
+    const go = await loadProjectConfig({ config: 'go.yaml' }, projectPath);
+    const python = await loadProjectConfig({ config: 'python.json' }, projectPath);
+
+    expect(go?.config.tools).toMatchObject({ eslint: false, testing: ['go-test'], golangciLint: true });
+    expect(go?.config.tools.uiFramework).toBeUndefined();
+    expect(go?.config.tools.stateManagement).toBeUndefined();
+    expect(python?.config.tools).toMatchObject({ eslint: false, testing: ['unittest'], ruff: true, mypy: false });
+  });
+
+  it('should apply the defaults of the project type given with --type', async () => {
+    await writeConfig('ai-rules.config.json', '{ "projectType": "typescript" }');
+
+    const loaded = await loadProjectConfig({ type: 'rust' }, projectPath);
+
+    expect(loaded?.config.tools).toMatchObject({ eslint: false, testing: ['cargo-test'], clippy: true });
+  });
+
+  it('should discover ai-rules.config.* files, preferring JSON', async () => {
+    await writeConfig('ai-rules.config.yml', 'projectType: go\n');
+    expect(await findConfigFile(projectPath)).toBe(path.join(projectPath, 'ai-rules.config.yml'));
+
+    await writeConfig('ai-rules.config.json', '{ "projectType": "rust" }');
+    expect((await loadProjectConfig({}, projectPath))?.config.projectType).toBe('rust');
+  });
+
+  it('should load the default export of a JavaScript config', async () => {
+    await writeConfig('ai-rules.config.mjs', 'export default { projectType: "java", tools: { buildTool: "gradle" } };');
+
+    const loaded = await loadProjectConfig({}, projectPath);
+
+    expect(loaded?.config.tools.buildTool).toBe('gradle');
+  });
+
+  it('should let flags override the file and add packs', () => {
+    const raw = { projectType: 'go', philosophy: { tdd: true, functionalProgramming: false }, packs: ['./team-pack'] };
+
+    expect(mergeConfigWithFlags(raw, { type: 'rust', tdd: false, output: 'claude, cursor', pack: ['acme-rules'] })).toEqual({
+      projectType: 'rust',
+      philosophy: { tdd: false, functionalProgramming: false },
+      output: { formats: ['claude', 'cursor'] },
+      packs: ['./team-pack', 'acme-rules'],
+    });
+    expect(mergeConfigWithFlags(raw, {})).toEqual(raw);
+  });
+
+  it('should report every invalid value with its path', async () => {
+    await writeConfig('ai-rules.config.json', '{ "projectType": "cobol", "tools": { "testing": ["mocha"] } }');
+
+    await expect(loadProjectConfig({}, projectPath)).rejects.toThrow(
+      /^Invalid config in ai-rules\.config\.json: projectType: Invalid enum value\. .*; tools\.testing\.0: Invalid enum value\./
+    );
+  });
+
+  it('should report unreadable and missing config files', async () => {
+    await writeConfig('ai-rules.config.json', '{ "projectType": ');
+    await expect(loadProjectConfig({}, projectPath)).rejects.toThrow(/^Failed to parse .*ai-rules\.config\.json: /);
+
+    await writeConfig('list.yaml', '- typescript\n');
+    await expect(loadProjectConfig({ config: 'list.yaml' }, projectPath)).rejects.toThrow('Invalid config in list.yaml: expected an object');
+
+    await expect(loadProjectConfig({ config: 'missing.json' }, projectPath)).rejects.toThrow('Config file not found: missing.json');
+  });
+});
@@ -0,0 +1,54 @@
+// Project types that use the JavaScript tooling: ESLint, Stylelint, Prettier,
+// the JavaScript test runners and UI frameworks
+export const JS_TOOLING_PROJECT_TYPES = ['typescript', 'javascript', 'other'];
+
+// Go, Rust and Java projects test with their toolchain's runner
+export const TOOLCHAIN_TEST_RUNNERS: Record<string, string> = {
+  go: 'go-test',
+  rust: 'cargo-test',
+  java: 'junit',
+};
+
+export const usesJsTooling = (projectType: string): boolean => JS_TOOLING_PROJECT_TYPES.includes(projectType);
+
+// Test runners of a project type when none were chosen
+export const getDefaultTestRunners = (projectType: string): string[] => {
+  if (TOOLCHAIN_TEST_RUNNERS[projectType]) {
+    return [TOOLCHAIN_TEST_RUNNERS[projectType]];
+  }
+  return projectType === 'python' ? ['pytest'] : ['vitest', 'react-testing-library'];
+};
+
+// Linters switched on for a project type unless the config says otherwise, as the wizard suggests them
+const DEFAULT_LINTERS: Record<string, Record<string, boolean>> = {
+  python: { ruff: true, mypy: true },
+  go: { golangciLint: true },
+  rust: { clippy: true },
+  java: { checkstyle: true },
+};
+
+/**
+ * Fill in the tools a raw config leaves out with the defaults of its project
+ * type, before it is validated. The schema defaults are those of a
+ * JavaScript project, so a Go config would otherwise get ESLint and Vitest.
+ * UI frameworks and state management only apply to JavaScript tooling and are
+ * cleared for other languages, as the wizard does not ask for them.
+ */
+export const applyProjectTypeDefaults = (raw: Record<string, any>): Record<string, any> => {
+  const { projectType, tools = {} } = raw;
+  if (typeof projectType !== 'string' || usesJsTooling(projectType) || typeof tools !== 'object' || tools === null || Array.isArray(tools)) {
+    return raw;
+  }
+
+  return {
+    ...raw,
+    tools: {
+      eslint: false,
+      testing: getDefaultTestRunners(projectType),
+      ...DEFAULT_LINTERS[projectType],
+      ...tools,
+      uiFramework: undefined,
+      stateManagement: undefined,
+    },
+  };
+};
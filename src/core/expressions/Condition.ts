@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import {
+  ExpressionNode,
+  ExpressionScope,
+  evaluateExpression,
+  isTruthy,
+  parseExpression,
+} from './Expression.js';
+import { ValueType, checkExpression } from './TypeChecker.js';
+
+/**
+ * Serializable conditions for content rules and questions. A condition is
+ * either an expression string or a JSON/YAML object:
+ *
+ *   "projectType == 'typescript' && 'playwright' in tools.testing"
+ *   { "all": [{ "eq": ["projectType", "typescript"] }, { "includes": ["tools.testing", "playwright"] }] }
+ *
+ * Paths in the object form are dotted strings; values are literals.
+ */
+type Literal = string | number | boolean | null;
+
+export type Condition =
+  | string
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | { eq: [string, Literal] }
+  | { ne: [string, Literal] }
+  | { in: [string, Literal[]] }
+  | { includes: [string, Literal] }
+  | { truthy: string };
+
+const LiteralSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const ConditionSchema: z.ZodType<Condition> = z.lazy(() => z.union([
+  z.string(),
+  z.object({ all: z.array(ConditionSchema) }).strict(),
+  z.object({ any: z.array(ConditionSchema) }).strict(),
+  z.object({ not: ConditionSchema }).strict(),
+  z.object({ eq: z.tuple([z.string(), LiteralSchema]) }).strict(),
+  z.object({ ne: z.tuple([z.string(), LiteralSchema]) }).strict(),
+  z.object({ in: z.tuple([z.string(), z.array(LiteralSchema)]) }).strict(),
+  z.object({ includes: z.tuple([z.string(), LiteralSchema]) }).strict(),
+  z.object({ truthy: z.string() }).strict(),
+]));
+
+const pathNode = (path: string): ExpressionNode => ({ type: 'path', segments: path.split('.'), position: 0 });
+const literalNode = (value: Literal): ExpressionNode => ({ type: 'literal', value });
+
+const combine = (operator: '&&' | '||', nodes: ExpressionNode[], empty: boolean): ExpressionNode => {
+  if (nodes.length === 0) {
+    return literalNode(empty);
+  }
+  return nodes.reduce((left, right) => ({ type: 'binary', operator, left, right }));
+};
+
+/**
+ * Turn a condition into an expression tree. Throws ExpressionError for
+ * expression strings that do not parse.
+ */
+export const compileCondition = (condition: Condition): ExpressionNode => {
+  if (typeof condition === 'string') {
+    return parseExpression(condition);
+  }
+  if ('all' in condition) {
+    return combine('&&', condition.all.map(compileCondition), true);
+  }
+  if ('any' in condition) {
+    return combine('||', condition.any.map(compileCondition), false);
+  }
+  if ('not' in condition) {
+    return { type: 'unary', operator: '!', argument: compileCondition(condition.not) };
+  }
+  if ('eq' in condition) {
+    return { type: 'binary', operator: '==', left: pathNode(condition.eq[0]), right: literalNode(condition.eq[1]) };
+  }
+  if ('ne' in condition) {
+    return { type: 'binary', operator: '!=', left: pathNode(condition.ne[0]), right: literalNode(condition.ne[1]) };
+  }
+  if ('in' in condition) {
+    const [path, values] = condition.in;
+    return combine('||', values.map(value => ({ type: 'binary', operator: '==', left: pathNode(path), right: literalNode(value) })), false);
+  }
+  if ('includes' in condition) {
+    return { type: 'binary', operator: 'in', left: literalNode(condition.includes[1]), right: pathNode(condition.includes[0]) };
+  }
+  return pathNode(condition.truthy);
+};
+
+export const evaluateCondition = (condition: Condition, scope: ExpressionScope): boolean => {
+  return isTruthy(evaluateExpression(compileCondition(condition), scope));
+};
+
+/**
+ * Compile a condition and check it against the values it will be evaluated
+ * with. Returns the problems found; an empty list means the condition is valid.
+ */
+export const validateCondition = (condition: Condition, type: ValueType): string[] => {
+  try {
+    return checkExpression(compileCondition(condition), type);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+};
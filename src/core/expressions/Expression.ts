@@ -0,0 +1,358 @@
+/**
+ * A small, side-effect free expression language shared by content templates
+ * and configuration conditions, e.g.
+ *
+ *   philosophy.tdd && "vitest" in tools.testing
+ *   projectType == "typescript" || includes(tools.testing, "jest")
+ */
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; segments: string[]; position: number }
+  | { type: 'unary'; operator: '!'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+type BinaryOperator = '==' | '!=' | '<' | '>' | '<=' | '>=' | '&&' | '||' | 'in';
+
+export interface ExpressionScope {
+  resolve: (segments: string[]) => any;
+}
+
+export class ExpressionError extends Error {
+  // Offset into the expression source where the problem was found
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+interface Token {
+  type: 'string' | 'number' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', ',', '.'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          index++;
+        }
+        value += source[index];
+        index++;
+      }
+      if (index >= source.length) {
+        throw new ExpressionError('Unterminated string literal', start);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_@$][\w$]*/.exec(source.slice(index));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      // Strict and loose equality behave the same; values are always compared strictly
+      tokens.push({ type: 'operator', value: operator.slice(0, 2), position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, index);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== operator) {
+      throw new ExpressionError(`Expected "${operator}" but found "${token.value || 'end of expression'}"`, token.position);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.matchOperator('||')) {
+      node = { type: 'binary', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseEquality();
+    while (this.matchOperator('&&')) {
+      node = { type: 'binary', operator: '&&', left: node, right: this.parseEquality() };
+    }
+    return node;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let node = this.parseComparison();
+    let operator: string | null;
+    while ((operator = this.matchOperator('==', '!='))) {
+      node = { type: 'binary', operator: operator as BinaryOperator, left: node, right: this.parseComparison() };
+    }
+    return node;
+  }
+
+  private parseComparison(): ExpressionNode {
+    let node = this.parseMembership();
+    let operator: string | null;
+    while ((operator = this.matchOperator('<', '>', '<=', '>='))) {
+      node = { type: 'binary', operator: operator as BinaryOperator, left: node, right: this.parseMembership() };
+    }
+    return node;
+  }
+
+  private parseMembership(): ExpressionNode {
+    const node = this.parseUnary();
+    const token = this.peek();
+    if (token.type === 'identifier' && token.value === 'in') {
+      this.index++;
+      return { type: 'binary', operator: 'in', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { type: 'unary', operator: '!', argument: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const node = this.parseOr();
+      this.expectOperator(')');
+      return node;
+    }
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null };
+      }
+      if (this.matchOperator('(')) {
+        return { type: 'call', name: token.value, args: this.parseArguments(), position: token.position };
+      }
+      return this.parsePath(token);
+    }
+
+    throw new ExpressionError(
+      token.type === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`,
+      token.position
+    );
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.matchOperator(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseOr());
+    } while (this.matchOperator(','));
+    this.expectOperator(')');
+    return args;
+  }
+
+  private parsePath(first: Token): ExpressionNode {
+    const segments = [first.value];
+    while (this.matchOperator('.')) {
+      const token = this.next();
+      if (token.type !== 'identifier' && token.type !== 'number') {
+        throw new ExpressionError('Expected a property name after "."', token.position);
+      }
+      segments.push(token.value);
+    }
+    return { type: 'path', segments, position: first.position };
+  }
+}
+
+export const parseExpression = (source: string): ExpressionNode => {
+  return new Parser(source).parse();
+};
+
+/**
+ * Truthiness used by conditions: empty arrays and empty strings are false so
+ * that `tools.testing` reads naturally as "any testing framework selected".
+ */
+export const isTruthy = (value: any): boolean => {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+};
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : value == null ? [] : [value]);
+
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  includes: (list: any, item: any) => toArray(list).includes(item),
+  join: (list: any, separator: string = ', ') => toArray(list).join(separator),
+  length: (value: any) => (value == null ? 0 : Array.isArray(value) || typeof value === 'string' ? value.length : Object.keys(value).length),
+  lower: (value: any) => String(value ?? '').toLowerCase(),
+  upper: (value: any) => String(value ?? '').toUpperCase(),
+  default: (value: any, fallback: any) => (isTruthy(value) ? value : fallback),
+};
+
+export const evaluateExpression = (node: ExpressionNode, scope: ExpressionScope): any => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return scope.resolve(node.segments);
+
+    case 'unary':
+      return !isTruthy(evaluateExpression(node.argument, scope));
+
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      if (!fn) {
+        throw new ExpressionError(
+          `Unknown function "${node.name}". Available functions: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`,
+          node.position
+        );
+      }
+      return fn(...node.args.map(arg => evaluateExpression(arg, scope)));
+    }
+
+    case 'binary': {
+      const left = evaluateExpression(node.left, scope);
+      // Short-circuit so the right-hand side may reference values that only exist when the left holds
+      if (node.operator === '&&') {
+        return isTruthy(left) ? evaluateExpression(node.right, scope) : left;
+      }
+      if (node.operator === '||') {
+        return isTruthy(left) ? left : evaluateExpression(node.right, scope);
+      }
+
+      const right = evaluateExpression(node.right, scope);
+      switch (node.operator) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '>': return left > right;
+        case '<=': return left <= right;
+        case '>=': return left >= right;
+        case 'in':
+          if (Array.isArray(right) || typeof right === 'string') {
+            return right.includes(left);
+          }
+          return right != null && typeof right === 'object' && left in right;
+      }
+    }
+  }
+};
+
+// Resolve paths against a plain object; missing keys are errors rather than undefined
+export const createObjectScope = (root: Record<string, any>): ExpressionScope => ({
+  resolve: segments => {
+    let value: any = root;
+    for (let i = 0; i < segments.length; i++) {
+      if (value == null || !(segments[i] in Object(value))) {
+        throw new ExpressionError(`Unknown variable "${segments.slice(0, i + 1).join('.')}"`, 0);
+      }
+      value = value[segments[i]];
+    }
+    return value;
+  },
+});
+
+/**
+ * Every variable path an expression reads, used to validate expressions
+ * before they are evaluated.
+ */
+export const collectPaths = (node: ExpressionNode): Array<{ segments: string[]; position: number }> => {
+  switch (node.type) {
+    case 'literal':
+      return [];
+    case 'path':
+      return [{ segments: node.segments, position: node.position }];
+    case 'unary':
+      return collectPaths(node.argument);
+    case 'binary':
+      return [...collectPaths(node.left), ...collectPaths(node.right)];
+    case 'call':
+      return node.args.flatMap(collectPaths);
+  }
+};
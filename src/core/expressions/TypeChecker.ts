@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import { EXPRESSION_FUNCTIONS, ExpressionNode } from './Expression.js';
+
+/**
+ * The shape of the values an expression can read. Built from a zod schema for
+ * project config conditions, or from question definitions for question
+ * conditions.
+ */
+export type ValueType =
+  | { kind: 'string'; values?: string[] }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'null' }
+  | { kind: 'array'; element: ValueType }
+  | { kind: 'object'; fields: Record<string, ValueType> }
+  | { kind: 'any' };
+
+const ANY: ValueType = { kind: 'any' };
+const BOOLEAN: ValueType = { kind: 'boolean' };
+
+const FUNCTION_RESULTS: Record<string, ValueType> = {
+  includes: BOOLEAN,
+  join: { kind: 'string' },
+  length: { kind: 'number' },
+  lower: { kind: 'string' },
+  upper: { kind: 'string' },
+  default: ANY,
+};
+
+export const describeSchema = (schema: z.ZodTypeAny): ValueType => {
+  if (
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable
+  ) {
+    return describeSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { kind: 'string', values: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral && typeof schema.value === 'string') {
+    return { kind: 'string', values: [schema.value] };
+  }
+  if (schema instanceof z.ZodString) {
+    return { kind: 'string' };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { kind: 'number' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return BOOLEAN;
+  }
+  if (schema instanceof z.ZodArray) {
+    return { kind: 'array', element: describeSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodObject) {
+    const fields: Record<string, ValueType> = {};
+    for (const [key, field] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      fields[key] = describeSchema(field);
+    }
+    return { kind: 'object', fields };
+  }
+  // Records, unions and anything else accept any path below them
+  return ANY;
+};
+
+const typeName = (type: ValueType): string => {
+  if (type.kind === 'array') {
+    return `${typeName(type.element)}[]`;
+  }
+  if (type.kind === 'string' && type.values) {
+    return type.values.map(value => `"${value}"`).join(' | ');
+  }
+  return type.kind;
+};
+
+const isComparable = (left: ValueType, right: ValueType): boolean => {
+  return left.kind === 'any' || right.kind === 'any' || left.kind === 'null' || right.kind === 'null' || left.kind === right.kind;
+};
+
+class Checker {
+  errors: string[] = [];
+
+  constructor(private root: ValueType) {}
+
+  check(node: ExpressionNode): ValueType {
+    switch (node.type) {
+      case 'literal':
+        if (node.value === null) {
+          return { kind: 'null' };
+        }
+        if (typeof node.value === 'string') {
+          return { kind: 'string', values: [node.value] };
+        }
+        return { kind: typeof node.value as 'number' | 'boolean' };
+
+      case 'path':
+        return this.resolvePath(node.segments);
+
+      case 'unary':
+        this.check(node.argument);
+        return BOOLEAN;
+
+      case 'call': {
+        const args = node.args.map(arg => this.check(arg));
+        if (!EXPRESSION_FUNCTIONS[node.name]) {
+          this.errors.push(`Unknown function "${node.name}"`);
+          return ANY;
+        }
+        if (node.name === 'includes' && args.length === 2) {
+          this.checkMembership(node.args[1], args[1], args[0]);
+        }
+        return FUNCTION_RESULTS[node.name] || ANY;
+      }
+
+      case 'binary': {
+        const left = this.check(node.left);
+        const right = this.check(node.right);
+        switch (node.operator) {
+          case '&&':
+          case '||':
+            return ANY;
+          case '==':
+          case '!=':
+            this.checkComparison(node.left, left, node.right, right);
+            return BOOLEAN;
+          case 'in':
+            this.checkMembership(node.left, left, right);
+            return BOOLEAN;
+          default:
+            if (!isComparable(left, right)) {
+              this.errors.push(`Cannot compare ${typeName(left)} with ${typeName(right)}`);
+            }
+            return BOOLEAN;
+        }
+      }
+    }
+  }
+
+  private resolvePath(segments: string[]): ValueType {
+    let type = this.root;
+    for (let i = 0; i < segments.length; i++) {
+      if (type.kind === 'any') {
+        return ANY;
+      }
+      if (type.kind !== 'object' || !(segments[i] in type.fields)) {
+        const known = type.kind === 'object' ? Object.keys(type.fields) : [];
+        const path = segments.slice(0, i + 1).join('.');
+        this.errors.push(
+          known.length > 0
+            ? `Unknown path "${path}"; expected one of: ${known.join(', ')}`
+            : `Unknown path "${path}"`
+        );
+        return ANY;
+      }
+      type = type.fields[segments[i]];
+    }
+    return type;
+  }
+
+  private checkComparison(leftNode: ExpressionNode, left: ValueType, rightNode: ExpressionNode, right: ValueType): void {
+    if (!isComparable(left, right)) {
+      this.errors.push(`Cannot compare ${typeName(left)} with ${typeName(right)}`);
+      return;
+    }
+    // A literal compared with an enum must be one of its values
+    this.checkEnumValue(rightNode, right, left);
+    this.checkEnumValue(leftNode, left, right);
+  }
+
+  private checkMembership(itemNode: ExpressionNode, item: ValueType, collection: ValueType): void {
+    if (collection.kind === 'array') {
+      if (!isComparable(item, collection.element)) {
+        this.errors.push(`Cannot look for ${typeName(item)} in ${typeName(collection)}`);
+        return;
+      }
+      this.checkEnumValue(itemNode, item, collection.element);
+    } else if (collection.kind !== 'string' && collection.kind !== 'object' && collection.kind !== 'any') {
+      this.errors.push(`Cannot look for a value in ${typeName(collection)}`);
+    }
+  }
+
+  private checkEnumValue(literalNode: ExpressionNode, literal: ValueType, expected: ValueType): void {
+    if (literalNode.type !== 'literal' || literal.kind !== 'string' || expected.kind !== 'string' || !expected.values) {
+      return;
+    }
+    if (!expected.values.includes(literalNode.value as string)) {
+      this.errors.push(`"${literalNode.value}" is not a valid value; expected ${typeName(expected)}`);
+    }
+  }
+}
+
+/**
+ * Check that an expression only reads paths that exist in `type` and only
+ * compares values against literals they can hold. Returns the problems found.
+ */
+export const checkExpression = (node: ExpressionNode, type: ValueType): string[] => {
+  const checker = new Checker(type);
+  checker.check(node);
+  return checker.errors;
+};
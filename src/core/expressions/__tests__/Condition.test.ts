@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { Condition, compileCondition, evaluateCondition, validateCondition } from '../Condition.js';
+import { createObjectScope } from '../Expression.js';
+import { describeSchema } from '../TypeChecker.js';
+import { ProjectConfigSchema } from '../../types.js';
+import { createConfigContext } from '../../template-engine/templateContext.js';
+
+const config = ProjectConfigSchema.parse({
+  projectType: 'typescript',
+  tools: { testing: ['vitest', 'playwright'] },
+});
+const scope = createObjectScope(createConfigContext(config));
+const configType = describeSchema(ProjectConfigSchema);
+
+describe('conditions', () => {
+  it('should evaluate expression strings', () => {
+    expect(evaluateCondition('projectType == "typescript" && "playwright" in tools.testing', scope)).toBe(true);
+    expect(evaluateCondition('!philosophy.tdd || tools.uiFramework == "react"', scope)).toBe(false);
+  });
+
+  it('should evaluate the object form', () => {
+    const condition: Condition = { all: [{ eq: ['projectType', 'typescript'] }, { includes: ['tools.testing', 'playwright'] }] };
+
+    expect(evaluateCondition(condition, scope)).toBe(true);
+    expect(evaluateCondition({ any: [{ ne: ['projectType', 'typescript'] }, { not: { truthy: 'tools.eslint' } }] }, scope)).toBe(false);
+    expect(evaluateCondition({ in: ['projectType', ['javascript', 'typescript']] }, scope)).toBe(true);
+    expect(evaluateCondition({ all: [] }, scope)).toBe(true);
+  });
+
+  it('should compile both forms to the same expression', () => {
+    expect(compileCondition({ eq: ['projectType', 'python'] })).toEqual(
+      { type: 'binary', operator: '==', left: { type: 'path', segments: ['projectType'], position: 0 }, right: { type: 'literal', value: 'python' } }
+    );
+  });
+
+  it('should accept conditions that match the config schema', () => {
+    expect(validateCondition('philosophy.tdd && "vitest" in tools.testing', configType)).toEqual([]);
+    expect(validateCondition('length(tools.testing) > 1 && output.formatOptions.claude.modular', configType)).toEqual([]);
+  });
+
+  it('should report unknown paths and impossible values', () => {
+    expect(validateCondition('philosophy.tddd', configType)).toEqual([
+      'Unknown path "philosophy.tddd"; expected one of: tdd, strictArchitecture, functionalProgramming',
+    ]);
+    expect(validateCondition({ eq: ['tools.uiFramework', 'react-native'] }, configType)).toEqual([
+      '"react-native" is not a valid value; expected "react" | "vue" | "angular" | "svelte" | "none"',
+    ]);
+    expect(validateCondition('tools.eslint == "yes"', configType)).toEqual(['Cannot compare boolean with "yes"']);
+    expect(validateCondition('projectType ==', configType)).toEqual(['Unexpected end of expression']);
+  });
+});
@@ -0,0 +1,119 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { FormatAdapter } from './FormatTypes.js';
+import { BUILTIN_ORIGIN } from '../../resources/packs/types/PackTypes.js';
+
+export class FormatRegistry {
+  private adapters: Map<string, FormatAdapter> = new Map();
+  // Where each format comes from: 'built-in', a plugin specifier or a pack
+  private origins: Map<string, string> = new Map();
+  private loadedPlugins: Set<string> = new Set();
+
+  constructor(adapters: FormatAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  register(adapter: FormatAdapter, origin: string = BUILTIN_ORIGIN): void {
+    if (!this.isFormatAdapter(adapter)) {
+      throw new Error('Invalid format adapter: expected an object with an "id", "name" and "render" function');
+    }
+    if (adapter.id === 'all') {
+      throw new Error('Format id "all" is reserved');
+    }
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Format "${adapter.id}" is already registered`);
+    }
+    this.adapters.set(adapter.id, adapter);
+    this.origins.set(adapter.id, origin);
+  }
+
+  unregister(id: string): boolean {
+    this.origins.delete(id);
+    return this.adapters.delete(id);
+  }
+
+  getOrigin(id: string): string | undefined {
+    return this.origins.get(id);
+  }
+
+  get(id: string): FormatAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.adapters.has(id);
+  }
+
+  list(): FormatAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  ids(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Import a plugin module and register the adapters it exports. Relative
+   * specifiers resolve against `baseDir`, bare specifiers are resolved as
+   * packages installed in `baseDir`. A plugin may export a single adapter or an
+   * array of adapters as its default export, or a named `formats` array.
+   * Its formats are listed with `origin`, which defaults to the specifier.
+   */
+  async loadPlugin(specifier: string, baseDir: string = process.cwd(), origin: string = specifier): Promise<FormatAdapter[]> {
+    const resolved = this.resolvePlugin(specifier, baseDir);
+    if (this.loadedPlugins.has(resolved)) {
+      return [];
+    }
+
+    let pluginModule: { formats?: unknown; default?: unknown };
+    try {
+      pluginModule = await import(pathToFileURL(resolved).href);
+    } catch (error) {
+      throw new Error(`Failed to load format plugin "${specifier}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const exported = pluginModule.formats ?? pluginModule.default;
+    const candidates: unknown[] = Array.isArray(exported) ? exported : [exported];
+    const adapters: FormatAdapter[] = [];
+
+    for (const candidate of candidates) {
+      if (!this.isFormatAdapter(candidate)) {
+        throw new Error(`Format plugin "${specifier}" does not export a valid format adapter`);
+      }
+      this.register(candidate, origin);
+      adapters.push(candidate);
+    }
+
+    this.loadedPlugins.add(resolved);
+    return adapters;
+  }
+
+  async loadPlugins(specifiers: string[], baseDir: string = process.cwd(), origin?: string): Promise<void> {
+    for (const specifier of specifiers) {
+      await this.loadPlugin(specifier, baseDir, origin);
+    }
+  }
+
+  private resolvePlugin(specifier: string, baseDir: string): string {
+    if (path.isAbsolute(specifier) || specifier.startsWith('.')) {
+      return path.resolve(baseDir, specifier);
+    }
+    const require = createRequire(path.join(baseDir, 'package.json'));
+    try {
+      return require.resolve(specifier);
+    } catch {
+      throw new Error(`Cannot find format plugin "${specifier}" from ${baseDir}`);
+    }
+  }
+
+  private isFormatAdapter(value: unknown): value is FormatAdapter {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    return typeof candidate.id === 'string' && candidate.id.length > 0 &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.render === 'function';
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ProjectConfig, OutputFile } from '../types.js';
+import { ContentSection } from '../../resources/content/types/ContentTypes.js';
+
+export interface FormatContext<TOptions = Record<string, any>> {
+  config: ProjectConfig;
+  sections: ContentSection[];
+  // This format's entry in `output.formatOptions`, parsed with its optionsSchema
+  options: TOptions;
+  // Generation date as YYYY-MM-DD; not set for deterministic output
+  date?: string;
+  // Render this format's layout template (`<id>-template.md`, overridable per
+  // project in .ai-rules/templates/) with the variables the format provides
+  renderTemplate: (variables: Record<string, any>) => Promise<string>;
+}
+
+/**
+ * An output format target. Each adapter owns everything needed to produce its
+ * files: the id used in `output.formats`, a display name, the options it
+ * accepts, and a renderer that returns the files (relative to the output
+ * directory) it wants written. Parent directories are created for every
+ * returned path.
+ */
+export interface FormatAdapter<TOptions = any> {
+  id: string;
+  name: string;
+  description?: string;
+  optionsSchema?: z.ZodType<TOptions, z.ZodTypeDef, any>;
+  // Estimated tokens all rendered files may use before low-priority content is
+  // condensed or dropped; `output.tokenBudgets` overrides it
+  tokenBudget?: number;
+  render: (context: FormatContext<TOptions>) => Promise<OutputFile[]>;
+}
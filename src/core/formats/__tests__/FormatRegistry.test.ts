@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FormatRegistry } from '../FormatRegistry.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { builtinFormats } from '../adapters/index.js';
+
+const testFormat: FormatAdapter = {
+  id: 'test',
+  name: 'Test Format',
+  render: async ({ config }) => [{ path: 'TEST.md', content: `# ${config.output.projectName}` }],
+};
+
+describe('FormatRegistry', () => {
+  it('should register the built-in formats in order', () => {
+    const registry = new FormatRegistry(builtinFormats);
+
+    expect(registry.ids()).toEqual([
+      'claude', 'vscode', 'readme', 'cursor', 'copilot', 'roocode',
+      'agents', 'windsurf', 'cline', 'gemini', 'aider',
+    ]);
+  });
+
+  it('should register and look up a format', () => {
+    const registry = new FormatRegistry();
+    registry.register(testFormat);
+
+    expect(registry.has('test')).toBe(true);
+    expect(registry.get('test')).toBe(testFormat);
+  });
+
+  it('should reject duplicate and reserved format ids', () => {
+    const registry = new FormatRegistry([testFormat]);
+
+    expect(() => registry.register(testFormat)).toThrow('already registered');
+    expect(() => registry.register({ ...testFormat, id: 'all' })).toThrow('reserved');
+  });
+
+  it('should reject objects that are not format adapters', () => {
+    const registry = new FormatRegistry();
+
+    expect(() => registry.register({ id: 'broken' } as any)).toThrow('Invalid format adapter');
+  });
+
+  it('should load adapters from a plugin module', async () => {
+    const pluginDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-plugin-'));
+    await fs.writeFile(
+      path.join(pluginDir, 'plugin.mjs'),
+      `export default [{ id: 'plugin', name: 'Plugin', render: async () => [{ path: 'PLUGIN.md', content: 'plugin' }] }];`
+    );
+
+    const registry = new FormatRegistry();
+    const loaded = await registry.loadPlugin('./plugin.mjs', pluginDir);
+    // Loading the same module again is a no-op
+    await registry.loadPlugin('./plugin.mjs', pluginDir);
+
+    expect(loaded.map(adapter => adapter.id)).toEqual(['plugin']);
+    expect(registry.ids()).toEqual(['plugin']);
+
+    await fs.rm(pluginDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,508 @@
+import { describe, it, expect } from 'vitest';
+import { ProjectConfigSchema } from '../../types.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { ContentLoader } from '../../../resources/content/loaders/ContentLoader.js';
+import { FormatAdapter, FormatContext } from '../FormatTypes.js';
+import { TemplateEngine } from '../../template-engine/TemplateEngine.js';
+import {
+  agentsFormat,
+  aiderFormat,
+  claudeFormat,
+  clineFormat,
+  copilotFormat,
+  cursorFormat,
+  geminiFormat,
+  readmeFormat,
+  rooCodeFormat,
+  vscodeFormat,
+  windsurfFormat,
+} from '../adapters/index.js';
+
+const config = ProjectConfigSchema.parse({
+  projectType: 'typescript',
+  output: { projectName: 'Test Project' },
+});
+
+const sections: ContentSection[] = [
+  { id: 'philosophy-tdd', section: 'philosophy', content: '### TDD\n- Write tests first', priority: 1, apply: 'always' },
+  {
+    id: 'project-typescript',
+    section: 'language',
+    content: '### TypeScript\n- Use strict mode',
+    priority: 1,
+    description: 'TypeScript coding standards',
+    globs: ['**/*.ts', '**/*.tsx'],
+    apply: 'auto',
+  },
+  {
+    id: 'quality-security',
+    section: 'quality',
+    content: '### Security\n- Never commit secrets',
+    priority: 2,
+    description: 'Security best practices',
+    globs: ['**/*'],
+    apply: 'agent',
+  },
+];
+
+const contentLoader = new ContentLoader();
+
+// Render with the built-in layout templates, as TemplateEngine does
+const renderFormat = <T>(adapter: FormatAdapter<T>, context: Omit<FormatContext<T>, 'renderTemplate'>) => {
+  return adapter.render({
+    ...context,
+    renderTemplate: variables => contentLoader.renderTemplate(adapter.id, context.config, variables),
+  });
+};
+
+describe('agentsFormat', () => {
+  it('should write AGENTS.md at the repository root', async () => {
+    const files = await renderFormat(agentsFormat, { config, sections, options: {} });
+
+    expect(files.map(file => file.path)).toEqual(['AGENTS.md']);
+  });
+
+  it('should group content into the AGENTS.md sections', async () => {
+    const [file] = await renderFormat(agentsFormat, { config, sections, options: {} });
+    const content = file.content;
+
+    expect(content).toContain('## Project Overview');
+    expect(content).toContain('Test Project is a typescript project.');
+    expect(content).toContain('- Type-check: `npx tsc --noEmit`');
+    expect(content.indexOf('## Code Style Guidelines')).toBeLessThan(content.indexOf('Use strict mode'));
+    expect(content.indexOf('## Testing Instructions')).toBeLessThan(content.indexOf('Write tests first'));
+    expect(content.indexOf('## Security Considerations')).toBeLessThan(content.indexOf('Never commit secrets'));
+  });
+
+  it('should use the npm commands for other projects, which use the JavaScript tooling', async () => {
+    const [file] = await renderFormat(agentsFormat, {
+      config: ProjectConfigSchema.parse({ projectType: 'other' }),
+      sections: [],
+      options: {},
+    });
+
+    expect(file.content).toContain('- Lint: `npm run lint`');
+    expect(file.content).not.toContain('npx tsc');
+  });
+
+  it('should run Python commands through the package manager', async () => {
+    const [file] = await renderFormat(agentsFormat, {
+      config: ProjectConfigSchema.parse({
+        projectType: 'python',
+        tools: { testing: ['pytest'], ruff: true, mypy: true, packageManager: 'poetry' },
+      }),
+      sections: [],
+      options: {},
+    });
+
+    expect(file.content).toContain('- Install dependencies: `poetry install`');
+    expect(file.content).toContain('- Run tests: `poetry run pytest`');
+    expect(file.content).toContain('- Lint: `poetry run ruff check .`');
+    expect(file.content).toContain('- Type-check: `poetry run mypy .`');
+  });
+
+  it('should use the toolchain commands of Go, Rust and Java projects', async () => {
+    const renderCommands = async (projectConfig: Record<string, unknown>) => {
+      const [file] = await renderFormat(agentsFormat, { config: ProjectConfigSchema.parse(projectConfig), sections: [], options: {} });
+      return file.content;
+    };
+
+    expect(await renderCommands({ projectType: 'go', tools: { golangciLint: true } })).toContain('- Lint: `golangci-lint run`');
+    expect(await renderCommands({ projectType: 'rust' })).toContain('- Run tests: `cargo test`');
+    expect(await renderCommands({ projectType: 'java', tools: { checkstyle: true } })).toContain('- Lint: `mvn checkstyle:check`');
+    expect(await renderCommands({ projectType: 'java', tools: { buildTool: 'gradle' } })).toContain('- Run tests: `./gradlew test`');
+  });
+});
+
+describe('readmeFormat', () => {
+  it('should only recommend ESLint for JavaScript tooling', async () => {
+    const [file] = await renderFormat(readmeFormat, {
+      config: ProjectConfigSchema.parse({ projectType: 'python', tools: { eslint: true, ruff: true, mypy: true } }),
+      sections: [],
+      options: {},
+    });
+
+    expect(file.content).toContain('**Code Quality**: ruff, mypy for consistent Python code');
+    expect(file.content).not.toContain('ESLint');
+  });
+
+  it('should link the other generated formats, including those selected through all', async () => {
+    const readme = async (formats: string[]) => {
+      const output = await new TemplateEngine().generateInstructions(ProjectConfigSchema.parse({ projectType: 'typescript', output: { formats } }));
+      return output.formats.readme[0].content;
+    };
+
+    const all = await readme(['all']);
+    expect(all).toContain('- See `CLAUDE.md` for detailed AI assistant instructions');
+    expect(all).toContain('- Import `.vscode/settings.json` for IDE configuration');
+    expect(await readme(['readme'])).not.toContain('## 📚 Documentation');
+  });
+});
+
+describe('cursorFormat', () => {
+  it('should write a project rule and one .mdc rule per concept', async () => {
+    const files = await renderFormat(cursorFormat, { config, sections, options: {} });
+
+    expect(files.map(file => file.path)).toEqual([
+      '.cursor/rules/project.mdc',
+      '.cursor/rules/philosophy-tdd.mdc',
+      '.cursor/rules/project-typescript.mdc',
+      '.cursor/rules/quality-security.mdc',
+    ]);
+  });
+
+  it('should render frontmatter for each rule type', async () => {
+    const files = await renderFormat(cursorFormat, { config, sections, options: {} });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(byPath['.cursor/rules/philosophy-tdd.mdc']).toMatch(/^---\ndescription: \nglobs: \nalwaysApply: true\n---/);
+    expect(byPath['.cursor/rules/project-typescript.mdc']).toContain('globs: **/*.ts,**/*.tsx\nalwaysApply: false');
+    expect(byPath['.cursor/rules/quality-security.mdc']).toContain('description: Security best practices\nglobs: \nalwaysApply: false');
+  });
+
+  it('should keep every bullet of the concept content', async () => {
+    const files = await renderFormat(cursorFormat, { config, sections, options: {} });
+
+    expect(files[2].content).toContain('- Use strict mode');
+  });
+});
+
+describe('windsurfFormat', () => {
+  it('should map rule applications to Windsurf triggers', async () => {
+    const files = await renderFormat(windsurfFormat, { config, sections, options: {} });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(byPath['.windsurf/rules/project.md']).toMatch(/^---\ntrigger: always_on\n---/);
+    expect(byPath['.windsurf/rules/philosophy-tdd.md']).toMatch(/^---\ntrigger: always_on\n---/);
+    expect(byPath['.windsurf/rules/project-typescript.md']).toMatch(/^---\ntrigger: glob\nglobs: \*\*\/\*\.ts,\*\*\/\*\.tsx\n---/);
+    expect(byPath['.windsurf/rules/quality-security.md']).toMatch(/^---\ntrigger: model_decision\ndescription: Security best practices\n---/);
+  });
+});
+
+describe('clineFormat', () => {
+  it('should write numbered rule files in content order', async () => {
+    const files = await renderFormat(clineFormat, { config, sections, options: {} });
+
+    expect(files.map(file => file.path)).toEqual([
+      '.clinerules/01-project.md',
+      '.clinerules/02-philosophy-tdd.md',
+      '.clinerules/03-project-typescript.md',
+      '.clinerules/04-quality-security.md',
+    ]);
+  });
+});
+
+describe('geminiFormat', () => {
+  it('should write GEMINI.md with every section', async () => {
+    const [file] = await renderFormat(geminiFormat, { config, sections, options: {} });
+
+    expect(file.path).toBe('GEMINI.md');
+    expect(file.content).toContain('## Development Philosophy');
+    expect(file.content).toContain('- Never commit secrets');
+  });
+});
+
+describe('aiderFormat', () => {
+  const parseOptions = (options: Record<string, any>) => aiderFormat.optionsSchema!.parse(options);
+
+  it('should only write CONVENTIONS.md by default', async () => {
+    const files = await renderFormat(aiderFormat, { config, sections, options: parseOptions({}) });
+
+    expect(files.map(file => file.path)).toEqual(['CONVENTIONS.md']);
+    expect(files[0].content).toContain('- Use strict mode');
+  });
+
+  it('should reference CONVENTIONS.md from an aider config when enabled', async () => {
+    const files = await renderFormat(aiderFormat, { config, sections, options: parseOptions({ config: true }) });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(Object.keys(byPath)).toEqual(['CONVENTIONS.md', '.aider.conf.yml']);
+    expect(byPath['.aider.conf.yml']).toContain('read:\n  - CONVENTIONS.md');
+  });
+});
+
+describe('copilotFormat', () => {
+  it('should write path-scoped files for concepts with globs', async () => {
+    const files = await renderFormat(copilotFormat, { config, sections, options: {} });
+
+    expect(files.map(file => file.path)).toEqual([
+      '.github/copilot-instructions.md',
+      '.github/instructions/project-typescript.instructions.md',
+    ]);
+    expect(files[1].content).toMatch(/^---\napplyTo: "\*\*\/\*\.ts,\*\*\/\*\.tsx"\n---\n\n### TypeScript/);
+  });
+
+  it('should keep unscoped concepts in the repository-wide file', async () => {
+    const [repositoryFile] = await renderFormat(copilotFormat, { config, sections, options: {} });
+
+    expect(repositoryFile.content).toContain('- Write tests first');
+    expect(repositoryFile.content).toContain('- Never commit secrets');
+    expect(repositoryFile.content).not.toContain('- Use strict mode');
+    expect(repositoryFile.content).toContain('`.github/instructions/project-typescript.instructions.md` applies to `**/*.ts, **/*.tsx`');
+  });
+});
+
+describe('rooCodeFormat', () => {
+  const defaultOptions = rooCodeFormat.optionsSchema!.parse({});
+
+  it('should route concepts to mode-specific rule directories', async () => {
+    const files = await renderFormat(rooCodeFormat, { config, sections, options: defaultOptions });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(Object.keys(byPath)).toEqual([
+      '.roo/rules/instructions.md',
+      '.roo/rules-code/instructions.md',
+      '.roo/rules-debug/instructions.md',
+    ]);
+    expect(byPath['.roo/rules-code/instructions.md']).toContain('write tests first');
+    expect(byPath['.roo/rules/instructions.md']).toContain('use strict mode');
+    expect(byPath['.roo/rules/instructions.md']).not.toContain('write tests first');
+  });
+
+  it('should send philosophy content to the architect mode', async () => {
+    const files = await renderFormat(rooCodeFormat, {
+      config,
+      sections: [{ id: 'philosophy-functional-programming', section: 'philosophy', content: '- Prefer pure functions', priority: 3, apply: 'always' }],
+      options: defaultOptions,
+    });
+
+    expect(files.map(file => file.path)).toContain('.roo/rules-architect/instructions.md');
+  });
+
+  it('should write .roomodes for selected custom modes', async () => {
+    const files = await renderFormat(rooCodeFormat, {
+      config,
+      sections,
+      options: rooCodeFormat.optionsSchema!.parse({ customModes: ['tdd', 'reviewer'] }),
+    });
+    const roomodes = files.find(file => file.path === '.roomodes');
+
+    expect(roomodes).toBeDefined();
+    expect(JSON.parse(roomodes!.content).customModes.map((mode: any) => mode.slug)).toEqual(['tdd', 'reviewer']);
+    expect(files.map(file => file.path)).toContain('.roo/rules-tdd/instructions.md');
+    expect(files.map(file => file.path)).toContain('.roo/rules-reviewer/instructions.md');
+  });
+
+  it('should reject unknown custom modes', () => {
+    expect(() => rooCodeFormat.optionsSchema!.parse({ customModes: ['unknown'] })).toThrow();
+  });
+});
+
+describe('claudeFormat', () => {
+  const parseOptions = (options: Record<string, any>) => claudeFormat.optionsSchema!.parse(options);
+
+  it('should only write CLAUDE.md by default', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({}) });
+
+    expect(files.map(file => file.path)).toEqual(['CLAUDE.md']);
+  });
+
+  it('should derive tool permissions from the selected tools', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({ settings: true }) });
+    const settings = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content);
+
+    expect(settings.permissions.allow).toEqual(expect.arrayContaining(['Bash(npm test:*)', 'Bash(npx vitest:*)', 'Bash(npx eslint:*)', 'Bash(npx tsc:*)']));
+    expect(settings.permissions.deny).toContain('Read(./.env)');
+    expect(settings.hooks).toBeUndefined();
+  });
+
+  it('should allow the full toolchain commands of Go and Java projects', async () => {
+    const allowed = async (projectConfig: Record<string, unknown>) => {
+      const files = await renderFormat(claudeFormat, { config: ProjectConfigSchema.parse(projectConfig), sections, options: parseOptions({ settings: true }) });
+      return JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content).permissions.allow;
+    };
+
+    expect(await allowed({ projectType: 'go', tools: { golangciLint: true } })).toEqual([
+      'Bash(go build ./...:*)',
+      'Bash(go test ./...:*)',
+      'Bash(golangci-lint run:*)',
+    ]);
+    expect(await allowed({ projectType: 'java', tools: { buildTool: 'gradle', checkstyle: true } })).toContain(
+      'Bash(./gradlew checkstyleMain checkstyleTest:*)'
+    );
+  });
+
+  it('should add a lint hook after edits when eslint is enabled', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({ hooks: true }) });
+    const settings = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content);
+
+    expect(settings.hooks.PostToolUse[0].matcher).toBe('Edit|MultiEdit|Write');
+    expect(settings.hooks.PostToolUse[0].hooks[0].command).toContain('npx eslint --fix');
+  });
+
+  it('should pass edited paths with spaces as one argument and skip the hook without jq', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({ hooks: true }) });
+    const [hook] = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content).hooks.PostToolUse[0].hooks;
+
+    expect(hook.command).toMatch(/^command -v jq >\/dev\/null \|\| \{ echo '.*jq is not installed' >&2; exit 0; \}; /);
+    expect(hook.command).toContain(`| tr '\\n' '\\0' | xargs -0 -r npx eslint --fix`);
+  });
+
+  it('should skip hooks when no linter is enabled', async () => {
+    const noLintConfig = ProjectConfigSchema.parse({ projectType: 'typescript', tools: { eslint: false } });
+    const files = await renderFormat(claudeFormat, { config: noLintConfig, sections, options: parseOptions({ hooks: true }) });
+
+    expect(files.map(file => file.path)).toEqual(['CLAUDE.md']);
+  });
+
+  it('should treat other projects like JavaScript projects', async () => {
+    const otherConfig = ProjectConfigSchema.parse({ projectType: 'other' });
+    const files = await renderFormat(claudeFormat, { config: otherConfig, sections, options: parseOptions({ settings: true, hooks: true }) });
+    const settings = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content);
+
+    expect(settings.permissions.allow).toEqual(expect.arrayContaining(['Bash(npm test:*)', 'Bash(npx eslint:*)']));
+    expect(settings.hooks.PostToolUse[0].hooks[0].command).toContain('npx eslint --fix');
+  });
+
+  it('should not add JavaScript lint hooks to other languages', async () => {
+    const goConfig = ProjectConfigSchema.parse({ projectType: 'go', tools: { eslint: true, stylelint: true } });
+    const files = await renderFormat(claudeFormat, { config: goConfig, sections, options: parseOptions({ hooks: true }) });
+    const settings = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content);
+
+    expect(settings.hooks.PostToolUse[0].hooks.map((hook: any) => hook.command)).toEqual([expect.stringContaining('gofmt -w')]);
+  });
+
+  it('should run Ruff and Black one after the other in a single hook', async () => {
+    const pythonConfig = ProjectConfigSchema.parse({ projectType: 'python', tools: { eslint: false, ruff: true, black: true, packageManager: 'uv' } });
+    const files = await renderFormat(claudeFormat, { config: pythonConfig, sections, options: parseOptions({ hooks: true }) });
+    const settings = JSON.parse(files.find(file => file.path === '.claude/settings.json')!.content);
+
+    expect(settings.hooks.PostToolUse[0].hooks.map((hook: any) => hook.command)).toEqual([
+      expect.stringMatching(/\| xargs -0 -r sh -c 'uv run ruff check --fix "\$@" && uv run black "\$@"' sh$/),
+    ]);
+  });
+
+  it('should write one file per concept and import them in modular mode', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({ modular: true }) });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(Object.keys(byPath)).toEqual([
+      'CLAUDE.md',
+      '.claude/rules/philosophy-tdd.md',
+      '.claude/rules/project-typescript.md',
+      '.claude/rules/quality-security.md',
+    ]);
+    expect(byPath['CLAUDE.md']).toContain('## Development Philosophy\n\n@.claude/rules/philosophy-tdd.md');
+    expect(byPath['CLAUDE.md']).not.toContain('- Write tests first');
+    expect(byPath['.claude/rules/philosophy-tdd.md']).toBe('### TDD\n- Write tests first\n');
+  });
+
+  it('should use a configurable directory for modular rules', async () => {
+    const files = await renderFormat(claudeFormat, { config, sections, options: parseOptions({ modular: true, rulesDir: 'docs/ai/' }) });
+
+    expect(files[1].path).toBe('docs/ai/philosophy-tdd.md');
+    expect(files[0].content).toContain('@docs/ai/philosophy-tdd.md');
+    expect(() => parseOptions({ rulesDir: '../outside' })).toThrow();
+  });
+
+  it('should build slash commands from TDD and quality content', async () => {
+    const files = await renderFormat(claudeFormat, {
+      config,
+      sections,
+      options: parseOptions({ commands: true }),
+    });
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+    expect(byPath['.claude/commands/tdd-cycle.md']).toContain('- Write tests first');
+    expect(byPath['.claude/commands/tdd-cycle.md']).toContain('$ARGUMENTS');
+    expect(byPath['.claude/commands/review.md']).toContain('- Never commit secrets');
+  });
+});
+
+describe('vscodeFormat', () => {
+  const defaultOptions = vscodeFormat.optionsSchema!.parse({});
+  const renderFiles = async (projectConfig: typeof config, options = defaultOptions) => {
+    const files = await renderFormat(vscodeFormat, { config: projectConfig, sections: [], options });
+    return Object.fromEntries(files.map(file => [file.path, JSON.parse(file.content)]));
+  };
+
+  it('should write flat settings and a separate extensions.json', async () => {
+    const files = await renderFiles(config);
+
+    expect(files['.vscode/settings.json']['editor.formatOnSave']).toBe(true);
+    expect(files['.vscode/settings.json']).not.toHaveProperty('settings');
+    expect(files['.vscode/settings.json']).not.toHaveProperty('extensions');
+    expect(files['.vscode/extensions.json'].recommendations).toEqual(['dbaeumer.vscode-eslint', 'vitest.explorer']);
+  });
+
+  it('should configure stylelint, prettier and jest when selected', async () => {
+    const files = await renderFiles(ProjectConfigSchema.parse({
+      projectType: 'javascript',
+      tools: { stylelint: true, prettier: true, testing: ['jest'] },
+    }));
+    const settings = files['.vscode/settings.json'];
+
+    expect(settings['editor.defaultFormatter']).toBe('esbenp.prettier-vscode');
+    expect(settings['css.validate']).toBe(false);
+    expect(settings['editor.codeActionsOnSave']).toEqual({
+      'source.fixAll.eslint': 'explicit',
+      'source.fixAll.stylelint': 'explicit',
+    });
+    expect(settings['jest.runMode']).toBe('on-demand');
+    expect(files['.vscode/extensions.json'].recommendations).toContain('stylelint.vscode-stylelint');
+  });
+
+  it('should add test, lint and type-check tasks', async () => {
+    const files = await renderFiles(config);
+
+    expect(files['.vscode/tasks.json'].tasks.map((task: any) => task.label)).toEqual(['test', 'lint', 'typecheck']);
+  });
+
+  it('should add debug configurations for the selected test runners', async () => {
+    const files = await renderFiles(ProjectConfigSchema.parse({
+      projectType: 'typescript',
+      tools: { testing: ['vitest', 'jest', 'playwright'] },
+    }));
+
+    expect(files['.vscode/launch.json'].configurations.map((launch: any) => launch.name)).toEqual([
+      'Debug Current Vitest File',
+      'Debug Current Jest File',
+      'Debug Current Playwright File',
+    ]);
+  });
+
+  it('should use Python tooling for python projects', async () => {
+    const files = await renderFiles(ProjectConfigSchema.parse({ projectType: 'python', tools: { eslint: false, testing: [] } }));
+
+    expect(files['.vscode/settings.json']['python.testing.pytestEnabled']).toBe(true);
+    expect(files['.vscode/extensions.json'].recommendations).toEqual(['ms-python.python', 'ms-python.vscode-pylance']);
+    expect(files['.vscode/launch.json'].configurations[0].module).toBe('pytest');
+  });
+
+  it('should configure the selected Python linters and test runner', async () => {
+    const files = await renderFiles(ProjectConfigSchema.parse({
+      projectType: 'python',
+      tools: { eslint: false, testing: ['unittest'], ruff: true, black: true, packageManager: 'uv' },
+    }));
+    const settings = files['.vscode/settings.json'];
+
+    expect(settings['python.testing.unittestEnabled']).toBe(true);
+    expect(settings['[python]']['editor.defaultFormatter']).toBe('ms-python.black-formatter');
+    expect(settings['[python]']['editor.codeActionsOnSave']).toHaveProperty('source.fixAll.ruff', 'explicit');
+    expect(files['.vscode/extensions.json'].recommendations).toContain('charliermarsh.ruff');
+    expect(files['.vscode/tasks.json'].tasks[0].command).toBe('uv run python -m unittest');
+    expect(files['.vscode/launch.json'].configurations[0].module).toBe('unittest');
+  });
+
+  it('should set up language support for Rust projects', async () => {
+    const files = await renderFiles(ProjectConfigSchema.parse({ projectType: 'rust', tools: { eslint: true, testing: ['cargo-test'], clippy: true } }));
+
+    const settings = files['.vscode/settings.json'];
+
+    expect(settings['rust-analyzer.check.command']).toBe('clippy');
+    expect(settings).not.toHaveProperty(['eslint.validate']);
+    expect(settings).not.toHaveProperty('editor.codeActionsOnSave');
+    expect(files['.vscode/extensions.json'].recommendations).toEqual(['rust-lang.rust-analyzer', 'vadimcn.vscode-lldb']);
+    expect(files['.vscode/tasks.json'].tasks.map((task: any) => task.command)).toEqual([
+      'cargo build',
+      'cargo test',
+      'cargo clippy -- -D warnings',
+    ]);
+  });
+
+  it('should skip tasks and launch configurations when disabled', async () => {
+    const files = await renderFiles(config, vscodeFormat.optionsSchema!.parse({ tasks: false, launch: false }));
+
+    expect(Object.keys(files)).toEqual(['.vscode/settings.json', '.vscode/extensions.json']);
+  });
+});
@@ -0,0 +1,93 @@
+import { ProjectConfig } from '../../types.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { TESTING_CONCEPTS, getPythonTestCommand, getPythonTooling, getToolchainCommands } from '../formatHelpers.js';
+import { usesJsTooling } from '../../config/projectDefaults.js';
+
+// Testing and security concepts get their own sections; everything else is
+// code style guidance
+const SECURITY_CONCEPTS = ['quality-security'];
+
+const getCommands = (config: ProjectConfig): Array<{ label: string; command: string }> => {
+  if (config.projectType === 'python') {
+    const { install, run } = getPythonTooling(config);
+    const commands = [
+      { label: 'Install dependencies', command: install },
+      { label: 'Run tests', command: run(getPythonTestCommand(config)) },
+    ];
+    if (config.tools.ruff) {
+      commands.push({ label: 'Lint', command: run('ruff check .') });
+    } else if (config.tools.flake8) {
+      commands.push({ label: 'Lint', command: run('flake8') });
+    }
+    if (config.tools.ruff || config.tools.black) {
+      commands.push({ label: 'Format', command: run(config.tools.black ? 'black .' : 'ruff format .') });
+    }
+    if (config.tools.mypy) {
+      commands.push({ label: 'Type-check', command: run('mypy .') });
+    }
+    return commands;
+  }
+
+  const toolchain = getToolchainCommands(config);
+  if (toolchain) {
+    // Rust and Gradle fetch dependencies as part of the build
+    const commands = toolchain.install === toolchain.build ? [] : [{ label: 'Install dependencies', command: toolchain.install }];
+    commands.push({ label: 'Build', command: toolchain.build }, { label: 'Run tests', command: toolchain.test });
+    if (toolchain.lint) {
+      commands.push({ label: 'Lint', command: toolchain.lint });
+    }
+    if (toolchain.format) {
+      commands.push({ label: 'Format', command: toolchain.format });
+    }
+    return commands;
+  }
+
+  if (!usesJsTooling(config.projectType)) {
+    return [];
+  }
+
+  const commands = [
+    { label: 'Install dependencies', command: 'npm install' },
+    { label: 'Start development mode', command: 'npm run dev' },
+    { label: 'Build', command: 'npm run build' },
+  ];
+  if (config.tools.testing.length > 0) {
+    commands.push({ label: 'Run tests', command: 'npm test' });
+  }
+  if (config.tools.eslint) {
+    commands.push({ label: 'Lint', command: 'npm run lint' });
+  }
+  if (config.projectType === 'typescript') {
+    commands.push({ label: 'Type-check', command: 'npx tsc --noEmit' });
+  }
+  return commands;
+};
+
+const joinContent = (contentSections: ContentSection[]): string => {
+  return contentSections.map(content => content.content).join('\n\n');
+};
+
+export const agentsFormat: FormatAdapter = {
+  id: 'agents',
+  name: 'AGENTS.md',
+  description: 'Cross-tool AGENTS.md for coding agents',
+  tokenBudget: 8000,
+
+  async render({ config, sections: contentSections, renderTemplate }) {
+    const testingContent = contentSections.filter(s => TESTING_CONCEPTS.includes(s.id));
+    const securityContent = contentSections.filter(s => SECURITY_CONCEPTS.includes(s.id));
+    const styleContent = contentSections.filter(
+      s => !TESTING_CONCEPTS.includes(s.id) && !SECURITY_CONCEPTS.includes(s.id)
+    );
+
+    const content = await renderTemplate({
+      commands: getCommands(config),
+      styleGuidelines: joinContent(styleContent),
+      testingInstructions: joinContent(testingContent),
+      securityConsiderations: joinContent(securityContent),
+    });
+
+    return [{ path: 'AGENTS.md', content }];
+  },
+};
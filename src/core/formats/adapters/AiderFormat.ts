@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { FormatAdapter } from '../FormatTypes.js';
+import { renderGroupedSections } from '../formatHelpers.js';
+
+const CONVENTIONS_FILE = 'CONVENTIONS.md';
+
+const aiderOptionsSchema = z.object({
+  // .aider.conf.yml that loads the conventions; replaces an existing aider config
+  config: z.boolean().default(false),
+});
+
+type AiderOptions = z.infer<typeof aiderOptionsSchema>;
+
+export const aiderFormat: FormatAdapter<AiderOptions> = {
+  id: 'aider',
+  name: 'Aider',
+  description: 'CONVENTIONS.md, loaded with `aider --read CONVENTIONS.md` or an optional .aider.conf.yml',
+  optionsSchema: aiderOptionsSchema,
+  tokenBudget: 8000,
+
+  async render({ sections: contentSections, options, renderTemplate }) {
+    const conventions = await renderTemplate({ sections: renderGroupedSections(contentSections).join('\n') });
+    const files = [{ path: CONVENTIONS_FILE, content: conventions }];
+
+    // Aider only reads conventions that are passed with --read or listed in its config
+    if (options.config) {
+      const aiderConfig = [
+        '# Load the project coding conventions as read-only context',
+        'read:',
+        `  - ${CONVENTIONS_FILE}`,
+        '',
+      ];
+      files.push({ path: '.aider.conf.yml', content: aiderConfig.join('\n') });
+    }
+
+    return files;
+  },
+};
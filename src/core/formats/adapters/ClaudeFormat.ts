@@ -0,0 +1,240 @@
+import path from 'path';
+import { z } from 'zod';
+import { ProjectConfig, OutputFile } from '../../types.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import {
+  TESTING_CONCEPTS,
+  getPythonLinters,
+  getPythonTestCommand,
+  getPythonTooling,
+  getToolchainCommands,
+  renderGroupedImports,
+  renderGroupedSections,
+} from '../formatHelpers.js';
+import { usesJsTooling } from '../../config/projectDefaults.js';
+
+const claudeOptionsSchema = z.object({
+  // .claude/settings.json with tool permissions derived from the selected tools
+  settings: z.boolean().default(false),
+  // .claude/commands/*.md slash commands built from the loaded content
+  commands: z.boolean().default(false),
+  // Lint or format edited files after every edit (eslint, stylelint, ruff, black, gofmt or rustfmt); needs jq
+  hooks: z.boolean().default(false),
+  // Write each concept to its own file and @-import them from CLAUDE.md
+  modular: z.boolean().default(false),
+  rulesDir: z.string()
+    .refine(dir => !path.isAbsolute(dir) && !dir.split(/[\\/]/).includes('..'), 'must be a relative path inside the output directory')
+    .default('.claude/rules'),
+});
+
+type ClaudeOptions = z.infer<typeof claudeOptionsSchema>;
+
+const TEST_RUNNER_PERMISSIONS: Record<string, string> = {
+  vitest: 'Bash(npx vitest:*)',
+  jest: 'Bash(npx jest:*)',
+  playwright: 'Bash(npx playwright test:*)',
+  cypress: 'Bash(npx cypress run:*)',
+};
+
+const getPermissions = (config: ProjectConfig): { allow: string[]; deny: string[] } => {
+  const allow: string[] = [];
+  const deny: string[] = [];
+
+  if (usesJsTooling(config.projectType)) {
+    if (config.tools.testing.length > 0) {
+      allow.push('Bash(npm test:*)');
+      config.tools.testing.forEach(framework => {
+        if (TEST_RUNNER_PERMISSIONS[framework]) {
+          allow.push(TEST_RUNNER_PERMISSIONS[framework]);
+        }
+      });
+    }
+    if (config.tools.eslint) {
+      allow.push('Bash(npm run lint:*)', 'Bash(npx eslint:*)');
+    }
+    if (config.tools.stylelint) {
+      allow.push('Bash(npx stylelint:*)');
+    }
+    if (config.projectType === 'typescript') {
+      allow.push('Bash(npx tsc:*)');
+    }
+  }
+
+  if (config.projectType === 'python') {
+    const { run } = getPythonTooling(config);
+    [getPythonTestCommand(config), ...getPythonLinters(config)].forEach(command => {
+      allow.push(`Bash(${run(command)}:*)`);
+    });
+  }
+
+  const toolchain = getToolchainCommands(config);
+  if (toolchain) {
+    // Allow each command as a whole, plus any arguments appended to it, e.g. Bash(go test ./...:*)
+    const commands = [toolchain.build, toolchain.test, toolchain.lint].filter((command): command is string => !!command);
+    commands.forEach(command => allow.push(`Bash(${command}:*)`));
+  }
+
+  if (config.quality.security) {
+    deny.push('Read(./.env)', 'Read(./.env.*)', 'Read(./secrets/**)');
+  }
+
+  return { allow, deny };
+};
+
+// Hook commands receive the tool call as JSON on stdin and read the edited
+// path with jq; without jq they report it and let the edit through. Paths are
+// passed NUL-separated so names with spaces stay one argument.
+const lintHookCommand = (extensions: string[], linters: string[]): string => {
+  const requireJq = `command -v jq >/dev/null || { echo 'ai-rules lint hook: jq is not installed' >&2; exit 0; }`;
+  // Linters that rewrite the same file run one after the other in a single hook; hooks run in parallel
+  const linter = linters.length === 1 ? linters[0] : `sh -c '${linters.map(command => `${command} "$@"`).join(' && ')}' sh`;
+  return `${requireJq}; jq -r '.tool_input.file_path // empty' | grep -E '\\.(${extensions.join('|')})$' | tr '\\n' '\\0' | xargs -0 -r ${linter}`;
+};
+
+const getHooks = (config: ProjectConfig): Record<string, any> | null => {
+  const hooks: Array<{ type: 'command'; command: string }> = [];
+
+  if (usesJsTooling(config.projectType)) {
+    if (config.tools.eslint) {
+      hooks.push({ type: 'command', command: lintHookCommand(['js', 'jsx', 'ts', 'tsx'], ['npx eslint --fix']) });
+    }
+    if (config.tools.stylelint) {
+      hooks.push({ type: 'command', command: lintHookCommand(['css', 'scss'], ['npx stylelint --fix']) });
+    }
+  }
+  if (config.projectType === 'python') {
+    const { run } = getPythonTooling(config);
+    const linters: string[] = [];
+    if (config.tools.ruff) {
+      linters.push(run('ruff check --fix'));
+    }
+    if (config.tools.black) {
+      linters.push(run('black'));
+    }
+    if (linters.length > 0) {
+      hooks.push({ type: 'command', command: lintHookCommand(['py'], linters) });
+    }
+  }
+  if (config.projectType === 'go') {
+    hooks.push({ type: 'command', command: lintHookCommand(['go'], ['gofmt -w']) });
+  }
+  if (config.projectType === 'rust') {
+    hooks.push({ type: 'command', command: lintHookCommand(['rs'], ['rustfmt']) });
+  }
+
+  if (hooks.length === 0) {
+    return null;
+  }
+
+  return {
+    PostToolUse: [
+      { matcher: 'Edit|MultiEdit|Write', hooks },
+    ],
+  };
+};
+
+const renderSettings = (config: ProjectConfig, options: ClaudeOptions): OutputFile | null => {
+  const settings: Record<string, any> = {};
+
+  if (options.settings) {
+    settings.permissions = getPermissions(config);
+  }
+  if (options.hooks) {
+    const hooks = getHooks(config);
+    if (hooks) {
+      settings.hooks = hooks;
+    }
+  }
+
+  if (Object.keys(settings).length === 0) {
+    return null;
+  }
+  return { path: '.claude/settings.json', content: JSON.stringify(settings, null, 2) };
+};
+
+const renderCommand = (description: string, argumentHint: string, body: string[]): string => {
+  return [
+    '---',
+    `description: ${description}`,
+    `argument-hint: ${argumentHint}`,
+    '---',
+    '',
+    ...body,
+  ].join('\n');
+};
+
+const renderCommands = (config: ProjectConfig, contentSections: ContentSection[]): OutputFile[] => {
+  const commands: OutputFile[] = [];
+
+  const testingContent = contentSections.filter(section => TESTING_CONCEPTS.includes(section.id));
+  if (config.philosophy.tdd && testingContent.length > 0) {
+    commands.push({
+      path: '.claude/commands/tdd-cycle.md',
+      content: renderCommand('Implement a change with a Red-Green-Refactor cycle', '[feature or bug description]', [
+        'Implement the following using test-driven development: $ARGUMENTS',
+        '',
+        '1. Write a failing test that describes the expected behavior and run it to confirm it fails',
+        '2. Write the minimal code needed to make the test pass and run the tests again',
+        '3. Refactor while keeping all tests green',
+        '',
+        'Follow these project guidelines:',
+        '',
+        ...testingContent.map(section => section.content.trim()),
+        '',
+      ]),
+    });
+  }
+
+  const reviewContent = contentSections.filter(section => section.section === 'quality');
+  if (config.quality.codeReview) {
+    commands.push({
+      path: '.claude/commands/review.md',
+      content: renderCommand('Review the current changes against the project guidelines', '[files or scope]', [
+        'Review the current changes (`git diff` and staged files) for $ARGUMENTS.',
+        '',
+        'Report issues ordered by severity with file and line references, and suggest concrete fixes.',
+        ...(reviewContent.length > 0 ? ['', 'Check the changes against these guidelines:', ''] : []),
+        ...reviewContent.map(section => section.content.trim()),
+        '',
+      ]),
+    });
+  }
+
+  return commands;
+};
+
+export const claudeFormat: FormatAdapter<ClaudeOptions> = {
+  id: 'claude',
+  name: 'Claude (CLAUDE.md)',
+  description: 'Detailed instructions for Claude AI, with optional .claude/ settings, commands and hooks',
+  tokenBudget: 8000,
+  optionsSchema: claudeOptionsSchema,
+
+  async render({ config, sections: contentSections, options, renderTemplate }) {
+    // Add content sections in logical order
+    const conceptPath = (section: ContentSection) => `${options.rulesDir.replace(/\/+$/, '')}/${section.id}.md`;
+    const sections = options.modular
+      ? renderGroupedImports(contentSections, conceptPath)
+      : renderGroupedSections(contentSections);
+
+    const files: OutputFile[] = [{ path: 'CLAUDE.md', content: await renderTemplate({ sections: sections.join('\n') }) }];
+
+    if (options.modular) {
+      files.push(...contentSections.map(section => ({
+        path: conceptPath(section),
+        content: `${section.content.trim()}\n`,
+      })));
+    }
+
+    const settingsFile = renderSettings(config, options);
+    if (settingsFile) {
+      files.push(settingsFile);
+    }
+    if (options.commands) {
+      files.push(...renderCommands(config, contentSections));
+    }
+
+    return files;
+  },
+};
@@ -0,0 +1,35 @@
+import { FormatAdapter } from '../FormatTypes.js';
+import { generatedOnFooter, getProjectConfigurationLines } from '../formatHelpers.js';
+
+const RULES_DIR = '.clinerules';
+
+// Cline combines every file in .clinerules/ in name order, so files are numbered
+const numbered = (index: number, name: string): string => {
+  return `${RULES_DIR}/${String(index).padStart(2, '0')}-${name}.md`;
+};
+
+export const clineFormat: FormatAdapter = {
+  id: 'cline',
+  name: 'Cline Rules',
+  description: '.clinerules/ directory of markdown rules for Cline',
+  tokenBudget: 8000,
+
+  async render({ config, sections: contentSections, date }) {
+    const project: string[] = [];
+
+    project.push(`# Cline Rules for ${config.output.projectName}`);
+    project.push('');
+    project.push('## Project Configuration');
+    project.push(...getProjectConfigurationLines(config));
+    project.push('');
+    project.push(generatedOnFooter(date));
+
+    return [
+      { path: numbered(1, 'project'), content: project.join('\n') },
+      ...contentSections.map((section, index) => ({
+        path: numbered(index + 2, section.id),
+        content: `${section.content.trim()}\n`,
+      })),
+    ];
+  },
+};
@@ -0,0 +1,63 @@
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { getSectionTitle, groupContentBySection } from '../formatHelpers.js';
+
+const INSTRUCTIONS_DIR = '.github/instructions';
+
+// Concepts scoped to file patterns get their own path-specific instructions file
+const isPathScoped = (section: ContentSection): boolean => {
+  return section.apply === 'auto' && (section.globs || []).length > 0;
+};
+
+const instructionsPath = (section: ContentSection): string => {
+  return `${INSTRUCTIONS_DIR}/${section.id}.instructions.md`;
+};
+
+const renderPathScoped = (section: ContentSection): string => {
+  return [
+    '---',
+    `applyTo: "${(section.globs || []).join(',')}"`,
+    '---',
+    '',
+    section.content.trim(),
+    '',
+  ].join('\n');
+};
+
+export const copilotFormat: FormatAdapter = {
+  id: 'copilot',
+  name: 'GitHub Copilot',
+  description: '.github/copilot-instructions.md plus path-scoped .github/instructions/*.instructions.md',
+  tokenBudget: 4000,
+
+  async render({ sections: contentSections, renderTemplate }) {
+    const scopedContent = contentSections.filter(isPathScoped);
+    const repositoryContent = contentSections.filter(section => !isPathScoped(section));
+
+    // Add repository-wide guidelines
+    const guidelines: string[] = [];
+    const groupedContent = groupContentBySection(repositoryContent);
+    for (const [sectionName, sectionContent] of Object.entries(groupedContent)) {
+      if (sectionContent.length > 0) {
+        guidelines.push(`### ${getSectionTitle(sectionName)}`);
+        sectionContent.forEach(content => {
+          guidelines.push(content.content);
+        });
+        guidelines.push('');
+      }
+    }
+
+    const content = await renderTemplate({
+      guidelines: guidelines.join('\n'),
+      pathInstructions: scopedContent.map(section => ({ path: instructionsPath(section), globs: section.globs || [] })),
+    });
+
+    return [
+      { path: '.github/copilot-instructions.md', content },
+      ...scopedContent.map(section => ({
+        path: instructionsPath(section),
+        content: renderPathScoped(section),
+      })),
+    ];
+  },
+};
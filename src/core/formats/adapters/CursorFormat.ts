@@ -0,0 +1,59 @@
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { generatedOnFooter, getProjectConfigurationLines, groupRulesBySeverity } from '../formatHelpers.js';
+
+const RULES_DIR = '.cursor/rules';
+
+// Cursor reads `globs` as a comma-separated list, not a YAML array
+const renderFrontmatter = (description: string, globs: string[], alwaysApply: boolean): string => {
+  return [
+    '---',
+    `description: ${description}`,
+    `globs: ${globs.join(',')}`,
+    `alwaysApply: ${alwaysApply}`,
+    '---',
+  ].join('\n');
+};
+
+const renderSectionRule = (section: ContentSection): string => {
+  const description = section.description || '';
+  // Only auto-attached rules carry globs; agent-requested rules are selected by description
+  const globs = section.apply === 'auto' ? section.globs || [] : [];
+  return [
+    renderFrontmatter(description, globs, section.apply === 'always'),
+    '',
+    // Rules are grouped so the must-follow ones come first
+    groupRulesBySeverity(section.content.trim()),
+    '',
+  ].join('\n');
+};
+
+export const cursorFormat: FormatAdapter = {
+  id: 'cursor',
+  name: 'Cursor Rules',
+  description: '.cursor/rules/*.mdc project rules for Cursor AI',
+  tokenBudget: 2000,
+
+  async render({ config, sections: contentSections, date }) {
+    const project: string[] = [];
+
+    project.push(renderFrontmatter(`Project configuration for ${config.output.projectName}`, [], true));
+    project.push('');
+    project.push(`# Cursor Rules for ${config.output.projectName}`);
+    project.push('');
+
+    project.push('## Project Configuration');
+    project.push(...getProjectConfigurationLines(config));
+    project.push('');
+
+    project.push(generatedOnFooter(date));
+
+    return [
+      { path: `${RULES_DIR}/project.mdc`, content: project.join('\n') },
+      ...contentSections.map(section => ({
+        path: `${RULES_DIR}/${section.id}.mdc`,
+        content: renderSectionRule(section),
+      })),
+    ];
+  },
+};
@@ -0,0 +1,15 @@
+import { FormatAdapter } from '../FormatTypes.js';
+import { renderGroupedSections } from '../formatHelpers.js';
+
+export const geminiFormat: FormatAdapter = {
+  id: 'gemini',
+  name: 'Gemini CLI (GEMINI.md)',
+  description: 'GEMINI.md context file for Gemini CLI',
+  tokenBudget: 8000,
+
+  async render({ sections: contentSections, renderTemplate }) {
+    const content = await renderTemplate({ sections: renderGroupedSections(contentSections).join('\n') });
+
+    return [{ path: 'GEMINI.md', content }];
+  },
+};
@@ -0,0 +1,74 @@
+import { FormatAdapter } from '../FormatTypes.js';
+import { ProjectConfig } from '../../types.js';
+import {
+  extractGuidelinesFromContent,
+  getLanguageLinters,
+  getPythonTestCommand,
+  getPythonTooling,
+  getToolchainCommands,
+} from '../formatHelpers.js';
+
+interface QuickStart {
+  prerequisites: string[];
+  install: string;
+  // Empty when the project has no separate development command
+  devCommand: string;
+  testCommands: string[];
+}
+
+const TOOLCHAIN_PREREQUISITES: Record<string, string[]> = {
+  go: ['Go 1.22+'],
+  rust: ['Rust stable toolchain (rustup)'],
+  java: ['JDK 21+'],
+};
+
+const getQuickStart = (config: ProjectConfig): QuickStart => {
+  if (config.projectType === 'python') {
+    const { install, run } = getPythonTooling(config);
+    return {
+      prerequisites: ['Python 3.10+', config.tools.packageManager || 'pip'],
+      install,
+      devCommand: '',
+      testCommands: [run(getPythonTestCommand(config))],
+    };
+  }
+
+  const toolchain = getToolchainCommands(config);
+  if (toolchain) {
+    const buildTool = config.projectType === 'java' ? [config.tools.buildTool === 'gradle' ? 'Gradle (wrapper included)' : 'Maven 3.9+'] : [];
+    return {
+      prerequisites: [...TOOLCHAIN_PREREQUISITES[config.projectType], ...buildTool],
+      install: toolchain.install,
+      devCommand: toolchain.run || '',
+      testCommands: [toolchain.test],
+    };
+  }
+
+  return {
+    prerequisites: config.projectType === 'typescript' ? ['Node.js 18+', 'TypeScript'] : ['Node.js 18+'],
+    install: 'npm install',
+    devCommand: 'npm run dev',
+    testCommands: ['npm test', 'npm run test:watch'],
+  };
+};
+
+export const readmeFormat: FormatAdapter = {
+  id: 'readme',
+  name: 'README.md',
+  description: 'Project documentation with guidelines',
+
+  async render({ config, sections: contentSections, renderTemplate }) {
+    // Add guidelines based on loaded content
+    const guidelines = extractGuidelinesFromContent(contentSections, config);
+
+    const content = await renderTemplate({
+      guidelines,
+      ...getQuickStart(config),
+      packageManager: config.projectType === 'python' ? config.tools.packageManager || 'pip' : '',
+      buildTool: config.projectType === 'java' ? config.tools.buildTool || 'maven' : '',
+      linters: getLanguageLinters(config),
+    });
+
+    return [{ path: 'README.md', content }];
+  },
+};
@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { ProjectConfig } from '../../types.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import {
+  TESTING_CONCEPTS,
+  convertContentToRules,
+  generatedOnFooter,
+  getSectionTitle,
+  groupContentBySection,
+} from '../formatHelpers.js';
+
+type RooMode = 'code' | 'architect' | 'debug';
+type RooCustomMode = 'tdd' | 'reviewer';
+
+const rooCodeOptionsSchema = z.object({
+  // Custom modes written to .roomodes, each with its own rules directory
+  customModes: z.array(z.enum(['tdd', 'reviewer'])).default([]),
+});
+
+type RooCodeOptions = z.infer<typeof rooCodeOptionsSchema>;
+
+const MODE_TITLES: Record<RooMode | RooCustomMode, string> = {
+  code: 'Code',
+  architect: 'Architect',
+  debug: 'Debug',
+  tdd: 'TDD',
+  reviewer: 'Reviewer',
+};
+
+/**
+ * Built-in modes a concept is routed to. Testing guidance helps when writing
+ * and debugging code, design philosophy belongs to the architect; everything
+ * else is shared by all modes through `.roo/rules/`.
+ */
+const getModes = (section: ContentSection): RooMode[] => {
+  if (TESTING_CONCEPTS.includes(section.id)) {
+    return ['code', 'debug'];
+  }
+  if (section.section === 'philosophy') {
+    return ['architect'];
+  }
+  return [];
+};
+
+const getCustomModeContent = (mode: RooCustomMode, contentSections: ContentSection[]): ContentSection[] => {
+  if (mode === 'tdd') {
+    return contentSections.filter(section => TESTING_CONCEPTS.includes(section.id));
+  }
+  return contentSections.filter(section => ['quality', 'language', 'framework'].includes(section.section));
+};
+
+const renderRules = (contentSections: ContentSection[]): string[] => {
+  const lines: string[] = [];
+
+  const groupedContent = groupContentBySection(contentSections);
+  for (const [sectionName, sectionContent] of Object.entries(groupedContent)) {
+    if (sectionContent.length > 0) {
+      lines.push(`### ${getSectionTitle(sectionName)} Rules`);
+      sectionContent.forEach(content => {
+        // Convert content to rule format
+        const rules = convertContentToRules(content);
+        rules.forEach(rule => lines.push(`- ${rule}`));
+      });
+      lines.push('');
+    }
+  }
+
+  return lines;
+};
+
+const renderModeRules = (
+  mode: RooMode | RooCustomMode,
+  config: ProjectConfig,
+  contentSections: ContentSection[],
+  date: string | undefined
+): string => {
+  const lines: string[] = [];
+
+  lines.push(`# ${MODE_TITLES[mode]} Mode Rules for ${config.output.projectName}`);
+  lines.push('');
+  lines.push(...renderRules(contentSections));
+  lines.push(`# ${generatedOnFooter(date)}`);
+
+  return lines.join('\n');
+};
+
+const buildCustomMode = (mode: RooCustomMode, config: ProjectConfig): Record<string, any> => {
+  if (mode === 'tdd') {
+    const frameworks = config.tools.testing.length > 0 ? config.tools.testing.join(' and ') : 'the project test runner';
+    return {
+      slug: 'tdd',
+      name: '🧪 TDD',
+      roleDefinition: `You are a test-driven developer working on ${config.output.projectName}. You write a failing test with ${frameworks} before any implementation, make it pass with the smallest change, then refactor.`,
+      whenToUse: 'Use when implementing features or fixing bugs test-first.',
+      groups: ['read', 'edit', 'command'],
+      customInstructions: 'Follow the Red-Green-Refactor cycle. Run the tests after every change and never modify a test just to make it pass.',
+    };
+  }
+
+  const focus = [
+    config.quality.security && 'security',
+    config.quality.accessibility && 'accessibility',
+    config.quality.performance && 'performance',
+    config.philosophy.strictArchitecture && 'architectural boundaries',
+  ].filter(Boolean) as string[];
+  return {
+    slug: 'reviewer',
+    name: '🔍 Reviewer',
+    roleDefinition: `You are a code reviewer for ${config.output.projectName}. You review changes against the project guidelines${focus.length > 0 ? `, paying particular attention to ${focus.join(', ')}` : ''}.`,
+    whenToUse: 'Use when reviewing a change or pull request before it is merged.',
+    groups: ['read'],
+    customInstructions: 'Report findings with file and line references, ordered by severity. Do not edit files.',
+  };
+};
+
+export const rooCodeFormat: FormatAdapter<RooCodeOptions> = {
+  id: 'roocode',
+  name: 'Roo Code',
+  description: '.roo/rules*/ mode-specific rules and optional .roomodes custom modes',
+  tokenBudget: 8000,
+  optionsSchema: rooCodeOptionsSchema,
+
+  async render({ config, sections: contentSections, options, date }) {
+    const sections: string[] = [];
+    const sharedContent = contentSections.filter(section => getModes(section).length === 0);
+
+    sections.push(`# Roo Code Instructions for ${config.output.projectName}`);
+    sections.push('');
+    sections.push('## Project Configuration');
+    sections.push('```yaml');
+    sections.push(`project:`);
+    sections.push(`  name: "${config.output.projectName}"`);
+    sections.push(`  type: ${config.projectType}`);
+    sections.push(`  tdd: ${config.philosophy.tdd}`);
+    sections.push(`  strict_architecture: ${config.philosophy.strictArchitecture}`);
+    sections.push(`  functional_programming: ${config.philosophy.functionalProgramming}`);
+    sections.push('```');
+    sections.push('');
+
+    sections.push('## Generation Rules');
+    sections.push('');
+    sections.push(...renderRules(sharedContent));
+
+    sections.push(`# ${generatedOnFooter(date)}`);
+
+    const files = [{ path: '.roo/rules/instructions.md', content: sections.join('\n') }];
+
+    // Mode-specific rules for the built-in modes
+    for (const mode of ['code', 'architect', 'debug'] as RooMode[]) {
+      const modeContent = contentSections.filter(section => getModes(section).includes(mode));
+      if (modeContent.length > 0) {
+        files.push({ path: `.roo/rules-${mode}/instructions.md`, content: renderModeRules(mode, config, modeContent, date) });
+      }
+    }
+
+    if (options.customModes.length > 0) {
+      for (const mode of options.customModes) {
+        const modeContent = getCustomModeContent(mode, contentSections);
+        if (modeContent.length > 0) {
+          files.push({ path: `.roo/rules-${mode}/instructions.md`, content: renderModeRules(mode, config, modeContent, date) });
+        }
+      }
+
+      const roomodes = { customModes: options.customModes.map(mode => buildCustomMode(mode, config)) };
+      files.push({ path: '.roomodes', content: JSON.stringify(roomodes, null, 2) });
+    }
+
+    return files;
+  },
+};
@@ -0,0 +1,310 @@
+import { z } from 'zod';
+import { ProjectConfig, OutputFile } from '../../types.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { getPythonLinters, getPythonTestCommand, getPythonTooling, getToolchainCommands } from '../formatHelpers.js';
+import { usesJsTooling } from '../../config/projectDefaults.js';
+
+const vscodeOptionsSchema = z.object({
+  // .vscode/tasks.json with test, lint and type-check tasks
+  tasks: z.boolean().default(true),
+  // .vscode/launch.json with debug configurations for the selected test runners
+  launch: z.boolean().default(true),
+});
+
+type VSCodeOptions = z.infer<typeof vscodeOptionsSchema>;
+
+const UI_FRAMEWORK_EXTENSIONS: Record<string, string> = {
+  react: 'burkeholland.simple-react-snippets',
+  vue: 'Vue.volar',
+  angular: 'Angular.ng-template',
+  svelte: 'svelte.svelte-vscode',
+};
+
+const TEST_FRAMEWORK_EXTENSIONS: Record<string, string> = {
+  vitest: 'vitest.explorer',
+  jest: 'orta.vscode-jest',
+  playwright: 'ms-playwright.playwright',
+};
+
+const PYTHON_TOOL_EXTENSIONS: Record<string, string> = {
+  ruff: 'charliermarsh.ruff',
+  black: 'ms-python.black-formatter',
+  flake8: 'ms-python.flake8',
+  mypy: 'ms-python.mypy-type-checker',
+};
+
+// Language support for Go, Rust and Java, plus the extensions of their linters
+const TOOLCHAIN_EXTENSIONS: Record<string, string[]> = {
+  go: ['golang.go'],
+  rust: ['rust-lang.rust-analyzer', 'vadimcn.vscode-lldb'],
+  java: ['vscjava.vscode-java-pack'],
+};
+
+const toJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+const getSettings = (config: ProjectConfig): Record<string, any> => {
+  const settings: Record<string, any> = {
+    'editor.formatOnSave': true,
+  };
+  const codeActionsOnSave: Record<string, string> = {};
+
+  if (config.tools.prettier) {
+    settings['editor.defaultFormatter'] = 'esbenp.prettier-vscode';
+  }
+
+  // TypeScript specific settings
+  if (config.projectType === 'typescript') {
+    settings['typescript.tsdk'] = 'node_modules/typescript/lib';
+    settings['typescript.enablePromptUseWorkspaceTsdk'] = true;
+    settings['typescript.preferences.includePackageJsonAutoImports'] = 'auto';
+  }
+
+  // ESLint settings
+  if (config.tools.eslint && usesJsTooling(config.projectType)) {
+    settings['eslint.validate'] = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+    codeActionsOnSave['source.fixAll.eslint'] = 'explicit';
+  }
+
+  // Stylelint replaces the built-in CSS validation
+  if (config.tools.stylelint) {
+    settings['stylelint.validate'] = ['css', 'scss'];
+    settings['css.validate'] = false;
+    settings['scss.validate'] = false;
+    codeActionsOnSave['source.fixAll.stylelint'] = 'explicit';
+  }
+
+  // Testing settings
+  if (config.tools.testing.includes('jest')) {
+    settings['jest.runMode'] = 'on-demand';
+  }
+
+  // Python settings
+  if (config.projectType === 'python') {
+    const usesPytest = getPythonTestCommand(config) === 'pytest';
+    settings['python.testing.pytestEnabled'] = usesPytest;
+    settings['python.testing.unittestEnabled'] = !usesPytest;
+    settings['python.analysis.typeCheckingMode'] = 'basic';
+    if (config.tools.packageManager === 'uv') {
+      settings['python.defaultInterpreterPath'] = '${workspaceFolder}/.venv/bin/python';
+    }
+
+    // Black formats when selected, otherwise ruff does
+    const formatter = config.tools.black ? 'ms-python.black-formatter' : config.tools.ruff ? 'charliermarsh.ruff' : undefined;
+    if (formatter || config.tools.ruff) {
+      settings['[python]'] = {
+        ...(formatter && { 'editor.defaultFormatter': formatter }),
+        ...(config.tools.ruff && {
+          'editor.codeActionsOnSave': { 'source.fixAll.ruff': 'explicit', 'source.organizeImports.ruff': 'explicit' },
+        }),
+      };
+    }
+  }
+
+  if (config.projectType === 'go') {
+    settings['[go]'] = { 'editor.defaultFormatter': 'golang.go' };
+    if (config.tools.golangciLint) {
+      settings['go.lintTool'] = 'golangci-lint';
+    }
+  }
+
+  if (config.projectType === 'rust') {
+    settings['[rust]'] = { 'editor.defaultFormatter': 'rust-lang.rust-analyzer' };
+    if (config.tools.clippy) {
+      settings['rust-analyzer.check.command'] = 'clippy';
+    }
+  }
+
+  if (config.projectType === 'java') {
+    settings['java.configuration.updateBuildConfiguration'] = 'automatic';
+    if (config.tools.checkstyle) {
+      settings['java.checkstyle.configuration'] = '${workspaceFolder}/config/checkstyle/checkstyle.xml';
+    }
+  }
+
+  if (Object.keys(codeActionsOnSave).length > 0) {
+    settings['editor.codeActionsOnSave'] = codeActionsOnSave;
+  }
+
+  return settings;
+};
+
+const getExtensions = (config: ProjectConfig): string[] => {
+  const extensions: string[] = [];
+
+  if (config.tools.eslint && usesJsTooling(config.projectType)) {
+    extensions.push('dbaeumer.vscode-eslint');
+  }
+  if (config.tools.prettier) {
+    extensions.push('esbenp.prettier-vscode');
+  }
+  if (config.tools.stylelint) {
+    extensions.push('stylelint.vscode-stylelint');
+  }
+
+  config.tools.testing.forEach(framework => {
+    if (TEST_FRAMEWORK_EXTENSIONS[framework]) {
+      extensions.push(TEST_FRAMEWORK_EXTENSIONS[framework]);
+    }
+  });
+
+  if (config.tools.uiFramework && UI_FRAMEWORK_EXTENSIONS[config.tools.uiFramework]) {
+    extensions.push(UI_FRAMEWORK_EXTENSIONS[config.tools.uiFramework]);
+  }
+
+  if (config.projectType === 'python') {
+    extensions.push('ms-python.python', 'ms-python.vscode-pylance');
+    getPythonLinters(config).forEach(tool => extensions.push(PYTHON_TOOL_EXTENSIONS[tool]));
+  }
+
+  if (TOOLCHAIN_EXTENSIONS[config.projectType]) {
+    extensions.push(...TOOLCHAIN_EXTENSIONS[config.projectType]);
+  }
+  if (config.projectType === 'java' && config.tools.checkstyle) {
+    extensions.push('shengchen.vscode-checkstyle');
+  }
+
+  return extensions;
+};
+
+const getTasks = (config: ProjectConfig): Record<string, any>[] => {
+  const tasks: Record<string, any>[] = [];
+
+  if (usesJsTooling(config.projectType)) {
+    if (config.tools.testing.length > 0) {
+      tasks.push({ label: 'test', type: 'npm', script: 'test', group: { kind: 'test', isDefault: true }, problemMatcher: [] });
+    }
+    if (config.tools.eslint) {
+      tasks.push({ label: 'lint', type: 'npm', script: 'lint', problemMatcher: ['$eslint-stylish'] });
+    }
+    if (config.projectType === 'typescript') {
+      tasks.push({ label: 'typecheck', type: 'shell', command: 'npx tsc --noEmit', problemMatcher: ['$tsc'] });
+    }
+  }
+
+  if (config.projectType === 'python') {
+    const { run } = getPythonTooling(config);
+    tasks.push({ label: 'test', type: 'shell', command: run(getPythonTestCommand(config)), group: { kind: 'test', isDefault: true }, problemMatcher: [] });
+    if (config.tools.ruff || config.tools.flake8) {
+      tasks.push({ label: 'lint', type: 'shell', command: run(config.tools.ruff ? 'ruff check .' : 'flake8'), problemMatcher: [] });
+    }
+    if (config.tools.mypy) {
+      tasks.push({ label: 'typecheck', type: 'shell', command: run('mypy .'), problemMatcher: [] });
+    }
+  }
+
+  const toolchain = getToolchainCommands(config);
+  if (toolchain) {
+    tasks.push({ label: 'build', type: 'shell', command: toolchain.build, group: { kind: 'build', isDefault: true }, problemMatcher: [] });
+    tasks.push({ label: 'test', type: 'shell', command: toolchain.test, group: { kind: 'test', isDefault: true }, problemMatcher: [] });
+    if (toolchain.lint) {
+      tasks.push({ label: 'lint', type: 'shell', command: toolchain.lint, problemMatcher: [] });
+    }
+  }
+
+  return tasks;
+};
+
+const getLaunchConfigurations = (config: ProjectConfig): Record<string, any>[] => {
+  const configurations: Record<string, any>[] = [];
+  const skipFiles = ['<node_internals>/**', '**/node_modules/**'];
+
+  if (config.tools.testing.includes('vitest')) {
+    configurations.push({
+      type: 'node',
+      request: 'launch',
+      name: 'Debug Current Vitest File',
+      program: '${workspaceFolder}/node_modules/vitest/vitest.mjs',
+      args: ['run', '${relativeFile}'],
+      autoAttachChildProcesses: true,
+      smartStep: true,
+      skipFiles,
+      console: 'integratedTerminal',
+    });
+  }
+
+  if (config.tools.testing.includes('jest')) {
+    configurations.push({
+      type: 'node',
+      request: 'launch',
+      name: 'Debug Current Jest File',
+      program: '${workspaceFolder}/node_modules/jest/bin/jest.js',
+      args: ['--runInBand', '${relativeFile}'],
+      skipFiles,
+      console: 'integratedTerminal',
+      internalConsoleOptions: 'neverOpen',
+    });
+  }
+
+  if (config.tools.testing.includes('playwright')) {
+    configurations.push({
+      type: 'node',
+      request: 'launch',
+      name: 'Debug Current Playwright File',
+      program: '${workspaceFolder}/node_modules/@playwright/test/cli.js',
+      args: ['test', '${relativeFile}'],
+      env: { PWDEBUG: '1' },
+      skipFiles,
+      console: 'integratedTerminal',
+    });
+  }
+
+  if (config.projectType === 'python') {
+    const usesPytest = getPythonTestCommand(config) === 'pytest';
+    configurations.push({
+      type: 'debugpy',
+      request: 'launch',
+      name: 'Debug Current Test File',
+      module: usesPytest ? 'pytest' : 'unittest',
+      args: [usesPytest ? '${file}' : '${relativeFile}'],
+      console: 'integratedTerminal',
+    });
+  }
+
+  if (config.projectType === 'go') {
+    configurations.push({
+      type: 'go',
+      request: 'launch',
+      name: 'Debug Current Go Test Package',
+      mode: 'test',
+      program: '${fileDirname}',
+    });
+  }
+
+  if (config.projectType === 'rust') {
+    configurations.push({
+      type: 'lldb',
+      request: 'launch',
+      name: 'Debug Unit Tests',
+      cargo: { args: ['test', '--no-run'] },
+      cwd: '${workspaceFolder}',
+    });
+  }
+
+  return configurations;
+};
+
+export const vscodeFormat: FormatAdapter<VSCodeOptions> = {
+  id: 'vscode',
+  name: 'VS Code Settings',
+  description: '.vscode/ workspace settings, recommended extensions, tasks and debug configurations',
+  optionsSchema: vscodeOptionsSchema,
+
+  async render({ config, options }) {
+    const files: OutputFile[] = [
+      { path: '.vscode/settings.json', content: toJson(getSettings(config)) },
+      { path: '.vscode/extensions.json', content: toJson({ recommendations: getExtensions(config) }) },
+    ];
+
+    const tasks = getTasks(config);
+    if (options.tasks && tasks.length > 0) {
+      files.push({ path: '.vscode/tasks.json', content: toJson({ version: '2.0.0', tasks }) });
+    }
+
+    const configurations = getLaunchConfigurations(config);
+    if (options.launch && configurations.length > 0) {
+      files.push({ path: '.vscode/launch.json', content: toJson({ version: '0.2.0', configurations }) });
+    }
+
+    return files;
+  },
+};
@@ -0,0 +1,55 @@
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { FormatAdapter } from '../FormatTypes.js';
+import { generatedOnFooter, getProjectConfigurationLines } from '../formatHelpers.js';
+
+const RULES_DIR = '.windsurf/rules';
+
+// Windsurf activation modes for each rule application
+const TRIGGERS = {
+  always: 'always_on',
+  auto: 'glob',
+  agent: 'model_decision',
+} as const;
+
+const renderSectionRule = (section: ContentSection): string => {
+  const frontmatter = ['---', `trigger: ${TRIGGERS[section.apply]}`];
+  if (section.apply === 'auto') {
+    frontmatter.push(`globs: ${(section.globs || []).join(',')}`);
+  }
+  if (section.apply === 'agent') {
+    frontmatter.push(`description: ${section.description || ''}`);
+  }
+  frontmatter.push('---');
+
+  return [...frontmatter, '', section.content.trim(), ''].join('\n');
+};
+
+export const windsurfFormat: FormatAdapter = {
+  id: 'windsurf',
+  name: 'Windsurf Rules',
+  description: '.windsurf/rules/*.md workspace rules for Windsurf',
+  tokenBudget: 3000,
+
+  async render({ config, sections: contentSections, date }) {
+    const project: string[] = [];
+
+    project.push('---');
+    project.push(`trigger: ${TRIGGERS.always}`);
+    project.push('---');
+    project.push('');
+    project.push(`# Windsurf Rules for ${config.output.projectName}`);
+    project.push('');
+    project.push('## Project Configuration');
+    project.push(...getProjectConfigurationLines(config));
+    project.push('');
+    project.push(generatedOnFooter(date));
+
+    return [
+      { path: `${RULES_DIR}/project.md`, content: project.join('\n') },
+      ...contentSections.map(section => ({
+        path: `${RULES_DIR}/${section.id}.md`,
+        content: renderSectionRule(section),
+      })),
+    ];
+  },
+};
@@ -0,0 +1,41 @@
+import { FormatAdapter } from '../FormatTypes.js';
+import { claudeFormat } from './ClaudeFormat.js';
+import { vscodeFormat } from './VSCodeFormat.js';
+import { readmeFormat } from './ReadmeFormat.js';
+import { cursorFormat } from './CursorFormat.js';
+import { copilotFormat } from './CopilotFormat.js';
+import { rooCodeFormat } from './RooCodeFormat.js';
+import { agentsFormat } from './AgentsFormat.js';
+import { windsurfFormat } from './WindsurfFormat.js';
+import { clineFormat } from './ClineFormat.js';
+import { geminiFormat } from './GeminiFormat.js';
+import { aiderFormat } from './AiderFormat.js';
+
+export {
+  claudeFormat,
+  vscodeFormat,
+  readmeFormat,
+  cursorFormat,
+  copilotFormat,
+  rooCodeFormat,
+  agentsFormat,
+  windsurfFormat,
+  clineFormat,
+  geminiFormat,
+  aiderFormat,
+};
+
+// Registration order is the order formats are listed and generated in
+export const builtinFormats: FormatAdapter[] = [
+  claudeFormat,
+  vscodeFormat,
+  readmeFormat,
+  cursorFormat,
+  copilotFormat,
+  rooCodeFormat,
+  agentsFormat,
+  windsurfFormat,
+  clineFormat,
+  geminiFormat,
+  aiderFormat,
+];
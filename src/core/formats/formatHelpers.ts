@@ -0,0 +1,275 @@
+import { ProjectConfig } from '../types.js';
+import { ContentSection, RULE_SEVERITIES } from '../../resources/content/types/ContentTypes.js';
+import { ListItem, MarkdownNode, getRules, parseMarkdown, renderMarkdown } from '../markdown/Markdown.js';
+import { formatSeverity, parseSeverityPrefix } from '../rules/RuleSettings.js';
+import { usesJsTooling } from '../config/projectDefaults.js';
+
+export const SECTION_ORDER = ['philosophy', 'language', 'framework', 'tools', 'quality', 'infrastructure'];
+
+// Concepts that formats treat as testing guidance
+export const TESTING_CONCEPTS = ['philosophy-tdd', 'tools-testing', 'tools-pytest', 'tools-go-test', 'tools-cargo-test', 'tools-junit'];
+
+export const groupContentBySection = (contentSections: ContentSection[]): Record<string, ContentSection[]> => {
+  const grouped: Record<string, ContentSection[]> = {};
+
+  for (const section of contentSections) {
+    if (!grouped[section.section]) {
+      grouped[section.section] = [];
+    }
+    grouped[section.section].push(section);
+  }
+
+  return grouped;
+};
+
+/**
+ * Render content as `## Section` blocks in SECTION_ORDER, the layout shared by
+ * single-file instruction formats like CLAUDE.md.
+ */
+export const renderGroupedSections = (contentSections: ContentSection[]): string[] => {
+  const lines: string[] = [];
+  const groupedContent = groupContentBySection(contentSections);
+
+  for (const sectionName of SECTION_ORDER) {
+    const sectionContent = groupedContent[sectionName];
+    if (sectionContent && sectionContent.length > 0) {
+      lines.push(`## ${getSectionTitle(sectionName)}`);
+      lines.push('');
+
+      for (const content of sectionContent) {
+        lines.push(content.content);
+        lines.push('');
+      }
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Like renderGroupedSections, but each concept is referenced with an `@path`
+ * import of its own file instead of being inlined.
+ */
+export const renderGroupedImports = (contentSections: ContentSection[], getPath: (section: ContentSection) => string): string[] => {
+  const lines: string[] = [];
+  const groupedContent = groupContentBySection(contentSections);
+
+  for (const sectionName of SECTION_ORDER) {
+    const sectionContent = groupedContent[sectionName];
+    if (sectionContent && sectionContent.length > 0) {
+      lines.push(`## ${getSectionTitle(sectionName)}`);
+      lines.push('');
+      sectionContent.forEach(content => lines.push(`@${getPath(content)}`));
+      lines.push('');
+    }
+  }
+
+  return lines;
+};
+
+export const getSectionTitle = (sectionName: string): string => {
+  const titles: Record<string, string> = {
+    philosophy: 'Development Philosophy',
+    language: 'Language-Specific Guidelines',
+    framework: 'Framework & State Management',
+    tools: 'Development Tools & Quality',
+    quality: 'Quality Assurance',
+    infrastructure: 'Infrastructure & Operations'
+  };
+
+  return titles[sectionName] || sectionName.charAt(0).toUpperCase() + sectionName.slice(1);
+};
+
+export const getProjectConfigurationLines = (config: ProjectConfig): string[] => {
+  return [
+    `- Language: ${config.projectType}`,
+    `- TDD: ${config.philosophy.tdd ? 'Required' : 'Optional'}`,
+    `- Architecture: ${config.philosophy.strictArchitecture ? 'Strict' : 'Flexible'}`,
+  ];
+};
+
+/**
+ * Commands of a Python project's package manager: installing dependencies
+ * and running a tool inside the project environment, e.g. `uv run pytest`.
+ */
+export const getPythonTooling = (config: ProjectConfig): { install: string; run: (command: string) => string } => {
+  switch (config.tools.packageManager) {
+    case 'uv':
+      return { install: 'uv sync', run: command => `uv run ${command}` };
+    case 'poetry':
+      return { install: 'poetry install', run: command => `poetry run ${command}` };
+    default:
+      return { install: 'pip install -r requirements.txt', run: command => command };
+  }
+};
+
+// pytest also runs unittest suites, so it is used unless unittest alone is selected
+export const getPythonTestCommand = (config: ProjectConfig): string => {
+  const { testing } = config.tools;
+  return testing.includes('unittest') && !testing.includes('pytest') ? 'python -m unittest' : 'pytest';
+};
+
+// Selected Python linters, formatter and type checker
+export const getPythonLinters = (config: ProjectConfig): Array<'ruff' | 'black' | 'flake8' | 'mypy'> => {
+  return (['ruff', 'black', 'flake8', 'mypy'] as const).filter(tool => config.tools[tool]);
+};
+
+// Commands of a Go, Rust or Java toolchain; `install` is the first command after cloning
+export interface ToolchainCommands {
+  install: string;
+  build: string;
+  run?: string;
+  test: string;
+  lint?: string;
+  format?: string;
+}
+
+/**
+ * Toolchain commands for Go, Rust and Java projects, null for other project
+ * types. Java uses Maven unless `tools.buildTool` is gradle; `lint` is only
+ * set when a linter is selected, except for Go, which always has `go vet`.
+ */
+export const getToolchainCommands = (config: ProjectConfig): ToolchainCommands | null => {
+  const { tools } = config;
+
+  switch (config.projectType) {
+    case 'go':
+      return {
+        install: 'go mod download',
+        build: 'go build ./...',
+        run: 'go run .',
+        test: 'go test ./...',
+        lint: tools.golangciLint ? 'golangci-lint run' : 'go vet ./...',
+        format: 'gofmt -w .',
+      };
+    case 'rust':
+      return {
+        install: 'cargo build',
+        build: 'cargo build',
+        run: 'cargo run',
+        test: 'cargo test',
+        lint: tools.clippy ? 'cargo clippy -- -D warnings' : undefined,
+        format: 'cargo fmt',
+      };
+    case 'java':
+      return tools.buildTool === 'gradle'
+        ? {
+          install: './gradlew build',
+          build: './gradlew build',
+          run: './gradlew run',
+          test: './gradlew test',
+          lint: tools.checkstyle ? './gradlew checkstyleMain checkstyleTest' : undefined,
+        }
+        : {
+          install: 'mvn install',
+          build: 'mvn package',
+          test: 'mvn test',
+          lint: tools.checkstyle ? 'mvn checkstyle:check' : undefined,
+        };
+    default:
+      return null;
+  }
+};
+
+const LANGUAGE_NAMES: Record<string, string> = { python: 'Python', go: 'Go', rust: 'Rust', java: 'Java' };
+
+// Linters selected for the project's language; JavaScript linters are listed by the content itself
+export const getLanguageLinters = (config: ProjectConfig): string[] => {
+  switch (config.projectType) {
+    case 'python':
+      return getPythonLinters(config);
+    case 'go':
+      return config.tools.golangciLint ? ['golangci-lint'] : [];
+    case 'rust':
+      return config.tools.clippy ? ['clippy'] : [];
+    case 'java':
+      return config.tools.checkstyle ? ['checkstyle'] : [];
+    default:
+      return [];
+  }
+};
+
+export const extractGuidelinesFromContent = (_contentSections: ContentSection[], config: ProjectConfig): string[] => {
+  const guidelines: string[] = [];
+
+  if (config.philosophy.tdd) {
+    guidelines.push('**Test-Driven Development**: Write tests before implementation');
+  }
+  if (config.philosophy.strictArchitecture) {
+    guidelines.push('**Strict Architecture**: Enforced architectural boundaries');
+  }
+  if (config.philosophy.functionalProgramming) {
+    guidelines.push('**Functional Programming**: Immutable data and pure functions');
+  }
+  if (config.tools.eslint && usesJsTooling(config.projectType)) {
+    guidelines.push('**Code Quality**: ESLint for consistent code style');
+  }
+  const linters = getLanguageLinters(config);
+  if (linters.length > 0) {
+    guidelines.push(`**Code Quality**: ${linters.join(', ')} for consistent ${LANGUAGE_NAMES[config.projectType]} code`);
+  }
+  if (config.quality.accessibility) {
+    guidelines.push('**Accessibility**: WCAG compliance required');
+  }
+
+  return guidelines;
+};
+
+// Lowercase a leading capitalized word ("Use" -> "use") but keep names like TypeScript or WCAG
+const lowerFirstWord = (text: string): string => {
+  return /^[A-Z][a-z]*\b/.test(text) ? text[0].toLowerCase() + text.slice(1) : text;
+};
+
+/**
+ * Turn the rules of a section into imperative generation rules, e.g.
+ * "Use type guards" becomes "[SHOULD] Generate code that use type guards".
+ * Sections without resolved `rules` fall back to their list items.
+ */
+export const convertContentToRules = (section: ContentSection): string[] => {
+  const rules = section.rules || getRules(parseMarkdown(section.content)).map(text => ({ text, severity: undefined }));
+
+  return rules.map(({ text, severity }) => {
+    const rule = /generate|ensure/i.test(text) ? text : `Generate code that ${lowerFirstWord(text)}`;
+    return severity ? `${formatSeverity(severity)} ${rule}` : rule;
+  });
+};
+
+const SEVERITY_HEADINGS = { must: 'Must', should: 'Should', may: 'May' };
+
+/**
+ * Re-render a section with its rules grouped under a heading per severity,
+ * strictest first, in place of its lists. Headings before the first list stay
+ * in place and prose follows the groups. Content without severities is
+ * returned as is.
+ */
+export const groupRulesBySeverity = (content: string): string => {
+  const nodes = parseMarkdown(content);
+  const items = nodes.flatMap(node => (node.type === 'list' ? node.items : []));
+  if (!items.some(item => parseSeverityPrefix(item.text).severity)) {
+    return content;
+  }
+
+  const firstList = nodes.findIndex(node => node.type === 'list');
+  const before = nodes.slice(0, firstList);
+  const lastHeading = [...before].reverse().find(node => node.type === 'heading');
+  const depth = Math.min((lastHeading && lastHeading.type === 'heading' ? lastHeading.depth : 2) + 1, 6);
+
+  const groups = RULE_SEVERITIES.flatMap((severity): MarkdownNode[] => {
+    const grouped: ListItem[] = items
+      .map(item => ({ item, ...parseSeverityPrefix(item.text) }))
+      .filter(rule => rule.severity === severity)
+      .map(rule => ({ ...rule.item, marker: '-', text: rule.text }));
+    return grouped.length > 0
+      ? [{ type: 'heading', depth, text: SEVERITY_HEADINGS[severity] }, { type: 'list', ordered: false, items: grouped }]
+      : [];
+  });
+  const ungrouped = items.filter(item => !parseSeverityPrefix(item.text).severity);
+  if (ungrouped.length > 0) {
+    groups.push({ type: 'list', ordered: false, items: ungrouped });
+  }
+
+  return renderMarkdown([...before, ...groups, ...nodes.slice(firstList).filter(node => node.type !== 'list')]);
+};
+
+// The generation date is left out of deterministic output
+export const generatedOnFooter = (date?: string): string => (date ? `Generated on ${date}` : 'Generated by ai-rules');
@@ -0,0 +1,14 @@
+export * from './FormatTypes.js';
+export * from './FormatRegistry.js';
+export * from './formatHelpers.js';
+export * from './adapters/index.js';
+
+import { FormatRegistry } from './FormatRegistry.js';
+import { builtinFormats } from './adapters/index.js';
+
+// Registry of built-in formats, used where no project-specific registry exists
+export const defaultFormatRegistry = new FormatRegistry(builtinFormats);
+
+export const createFormatRegistry = () => {
+  return new FormatRegistry(builtinFormats);
+};
@@ -0,0 +1,334 @@
+/**
+ * Block-level markdown parsing for content files. Formats use the tree to
+ * pick out headings, rules (list items) and code fences, and to rewrite
+ * content per format, without scanning lines by hand. Inline markup such as
+ * `**bold**` or `code` is kept verbatim in the text of each block.
+ */
+
+export type MarkdownNode =
+  | { type: 'heading'; depth: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'blockquote'; children: MarkdownNode[] }
+  | { type: 'thematicBreak' };
+
+export interface ListItem {
+  // `-`, `*`, `+`, `1.` or `1)`
+  marker: string;
+  // The item's first paragraph; continuation lines are kept, joined with \n
+  text: string;
+  // Nested lists, code blocks and further paragraphs
+  children: MarkdownNode[];
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:( +)(.*))?$/;
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const startsBlock = (line: string): boolean => {
+  return FENCE.test(line) || HEADING.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+};
+
+const isOrderedMarker = (marker: string): boolean => /\d/.test(marker);
+
+// Remove up to `count` leading spaces
+const dedent = (line: string, count: number): string => {
+  return line.slice(Math.min(count, indentOf(line)));
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private lines: string[]) {}
+
+  parse(): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (isBlank(line)) {
+        this.index++;
+        continue;
+      }
+      nodes.push(this.parseBlock(line));
+    }
+
+    return nodes;
+  }
+
+  private parseBlock(line: string): MarkdownNode {
+    const fence = FENCE.exec(line);
+    if (fence) {
+      return this.parseCode(fence[1], fence[2], indentOf(line));
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      this.index++;
+      return { type: 'heading', depth: heading[1].length, text: heading[2] || '' };
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      this.index++;
+      return { type: 'thematicBreak' };
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      return this.parseBlockquote();
+    }
+
+    if (LIST_ITEM.test(line)) {
+      return this.parseList();
+    }
+
+    return this.parseParagraph();
+  }
+
+  private parseCode(fence: string, lang: string, indent: number): MarkdownNode {
+    const value: string[] = [];
+    this.index++;
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index++];
+      const closing = FENCE.exec(line);
+      if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length && !closing[2]) {
+        break;
+      }
+      value.push(dedent(line, indent));
+    }
+
+    return { type: 'code', lang, value: value.join('\n') };
+  }
+
+  private parseBlockquote(): MarkdownNode {
+    const quoted: string[] = [];
+
+    while (this.index < this.lines.length && BLOCKQUOTE.test(this.lines[this.index])) {
+      quoted.push(this.lines[this.index++].replace(BLOCKQUOTE, ''));
+    }
+
+    return { type: 'blockquote', children: new Parser(quoted).parse() };
+  }
+
+  private parseParagraph(): MarkdownNode {
+    const text: string[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (isBlank(line) || (text.length > 0 && startsBlock(line))) {
+        break;
+      }
+      text.push(line.trim());
+      this.index++;
+    }
+
+    return { type: 'paragraph', text: text.join('\n') };
+  }
+
+  private parseList(): MarkdownNode {
+    const first = LIST_ITEM.exec(this.lines[this.index])!;
+    const listIndent = first[1].length;
+    const ordered = isOrderedMarker(first[2]);
+    const items: ListItem[] = [];
+
+    while (this.index < this.lines.length) {
+      const match = LIST_ITEM.exec(this.lines[this.index]);
+      if (!match || match[1].length !== listIndent || isOrderedMarker(match[2]) !== ordered) {
+        break;
+      }
+      items.push(this.parseListItem(match));
+
+      // A blank line ends the list unless the next item follows
+      let next = this.index;
+      while (next < this.lines.length && isBlank(this.lines[next])) {
+        next++;
+      }
+      const following = next < this.lines.length ? LIST_ITEM.exec(this.lines[next]) : null;
+      if (!following || following[1].length !== listIndent) {
+        break;
+      }
+      this.index = next;
+    }
+
+    return { type: 'list', ordered, items };
+  }
+
+  private parseListItem(match: RegExpExecArray): ListItem {
+    const [, indent, marker, spacing = ' ', firstLine = ''] = match;
+    // Continuation lines are indented to the item's text
+    const contentIndent = indent.length + marker.length + (spacing.length > 4 ? 1 : spacing.length);
+    const body: string[] = [firstLine];
+    this.index++;
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+
+      if (isBlank(line)) {
+        let next = this.index;
+        while (next < this.lines.length && isBlank(this.lines[next])) {
+          next++;
+        }
+        if (next >= this.lines.length || indentOf(this.lines[next]) < contentIndent) {
+          break;
+        }
+        body.push('');
+        this.index++;
+        continue;
+      }
+
+      if (indentOf(line) >= contentIndent) {
+        body.push(dedent(line, contentIndent));
+      } else if (!isBlank(body[body.length - 1]) && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        body.push(line.trim());
+      } else {
+        break;
+      }
+      this.index++;
+    }
+
+    const [head, ...children] = new Parser(body).parse();
+    if (head && head.type === 'paragraph' && firstLine.trim() !== '') {
+      return { marker, text: head.text, children };
+    }
+    return { marker, text: '', children: head ? [head, ...children] : [] };
+  }
+}
+
+export const parseMarkdown = (source: string): MarkdownNode[] => {
+  return new Parser(source.replace(/\r\n?/g, '\n').split('\n')).parse();
+};
+
+const indentLines = (text: string, prefix: string): string => {
+  return text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+};
+
+const renderNode = (node: MarkdownNode): string => {
+  switch (node.type) {
+    case 'heading':
+      return `${'#'.repeat(node.depth)} ${node.text}`;
+    case 'paragraph':
+      return node.text;
+    case 'code': {
+      const fence = node.value.includes('```') ? '~~~' : '```';
+      return `${fence}${node.lang}\n${node.value}\n${fence}`;
+    }
+    case 'blockquote':
+      return renderMarkdown(node.children).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'thematicBreak':
+      return '---';
+    case 'list':
+      return node.items.map(item => {
+        const padding = ' '.repeat(item.marker.length + 1);
+        const text = indentLines(item.text, padding).slice(padding.length);
+        const children = item.children.map(child => indentLines(renderNode(child), padding));
+        return [`${item.marker} ${text}`.trimEnd(), ...children].join('\n');
+      }).join('\n');
+  }
+};
+
+/**
+ * Serialize a tree back to markdown. Blocks are separated by a blank line,
+ * except a list directly below a heading; lists are written tight.
+ */
+export const renderMarkdown = (nodes: MarkdownNode[]): string => {
+  return nodes.map((node, index) => {
+    const separator = index === 0 ? '' : node.type === 'list' && nodes[index - 1].type === 'heading' ? '\n' : '\n\n';
+    return separator + renderNode(node);
+  }).join('');
+};
+
+// Call `visitor` for every node, parents before their children
+export const walkMarkdown = (nodes: MarkdownNode[], visitor: (node: MarkdownNode) => void): void => {
+  for (const node of nodes) {
+    visitor(node);
+    if (node.type === 'blockquote') {
+      walkMarkdown(node.children, visitor);
+    } else if (node.type === 'list') {
+      node.items.forEach(item => walkMarkdown(item.children, visitor));
+    }
+  }
+};
+
+// Inline text on one line, e.g. for a bullet built from a multi-line item
+export const flattenText = (text: string): string => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export const getHeadings = (nodes: MarkdownNode[]): Array<{ depth: number; text: string }> => {
+  const headings: Array<{ depth: number; text: string }> = [];
+  walkMarkdown(nodes, node => {
+    if (node.type === 'heading') {
+      headings.push({ depth: node.depth, text: node.text });
+    }
+  });
+  return headings;
+};
+
+export const getCodeBlocks = (nodes: MarkdownNode[]): Array<{ lang: string; value: string }> => {
+  const blocks: Array<{ lang: string; value: string }> = [];
+  walkMarkdown(nodes, node => {
+    if (node.type === 'code') {
+      blocks.push({ lang: node.lang, value: node.value });
+    }
+  });
+  return blocks;
+};
+
+// The text of a rule item on one line, with nested items appended (see getRules)
+export const getRuleText = (item: ListItem): string => {
+  const nestedText = (parent: ListItem): string[] => parent.children.flatMap(child => {
+    if (child.type !== 'list') {
+      return [];
+    }
+    return child.items.map(nested => [flattenText(nested.text), ...nestedText(nested)].filter(Boolean).join('; '));
+  });
+
+  return [flattenText(item.text), nestedText(item).join('; ')].filter(Boolean).join(' ');
+};
+
+/**
+ * The rules a content file states: the items of its outermost lists, each on
+ * one line. Nested items are appended to their parent, separated by `; `, so
+ * "Follow the cycle:" with Red/Green/Refactor sub-items stays one rule.
+ */
+export const getRules = (nodes: MarkdownNode[]): string[] => {
+  const rules: string[] = [];
+
+  const collect = (blocks: MarkdownNode[]) => {
+    for (const node of blocks) {
+      if (node.type === 'list') {
+        rules.push(...node.items.map(getRuleText).filter(Boolean));
+      } else if (node.type === 'blockquote') {
+        collect(node.children);
+      }
+    }
+  };
+
+  collect(nodes);
+  return rules;
+};
+
+/**
+ * Replace every rule item (the items getRules reads) with the result of
+ * `map`, or remove it when `map` returns null. Lists and blockquotes left
+ * empty are removed too.
+ */
+export const mapRuleItems = (nodes: MarkdownNode[], map: (item: ListItem) => ListItem | null): MarkdownNode[] => {
+  return nodes.flatMap((node): MarkdownNode[] => {
+    if (node.type === 'list') {
+      const items = node.items.map(map).filter((item): item is ListItem => item !== null);
+      return items.length > 0 ? [{ ...node, items }] : [];
+    }
+    if (node.type === 'blockquote') {
+      const children = mapRuleItems(node.children, map);
+      return children.length > 0 ? [{ ...node, children }] : [];
+    }
+    return [node];
+  });
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { getCodeBlocks, getHeadings, getRules, parseMarkdown, renderMarkdown } from '../Markdown.js';
+import { convertContentToRules } from '../../formats/formatHelpers.js';
+
+const content = [
+  '## Testing',
+  '',
+  '### Test-Driven Development',
+  '- **ALWAYS** write tests first',
+  '- Follow the Red-Green-Refactor cycle:',
+  '  1. **Red**: Write a failing test',
+  '  2. **Green**: Make it pass',
+  '- Keep each test focused on one',
+  '  behavior, even for long descriptions',
+  '',
+  'Example:',
+  '',
+  '```ts',
+  '- not a rule',
+  'expect(useEffect).toBeDefined();',
+  '```',
+  '',
+  '1. Use TypeScript strict mode',
+  '2. Prefer `useEffect` cleanup functions',
+].join('\n');
+
+describe('parseMarkdown', () => {
+  const nodes = parseMarkdown(content);
+
+  it('should parse headings, lists, paragraphs and code fences', () => {
+    expect(nodes.map(node => node.type)).toEqual(['heading', 'heading', 'list', 'paragraph', 'code', 'list']);
+    expect(getHeadings(nodes)).toEqual([
+      { depth: 2, text: 'Testing' },
+      { depth: 3, text: 'Test-Driven Development' },
+    ]);
+    expect(getCodeBlocks(nodes)).toEqual([{ lang: 'ts', value: '- not a rule\nexpect(useEffect).toBeDefined();' }]);
+  });
+
+  it('should keep nested lists and multi-line items with their parent item', () => {
+    const list = nodes[2];
+    expect(list.type === 'list' && list.items.map(item => item.text)).toEqual([
+      '**ALWAYS** write tests first',
+      'Follow the Red-Green-Refactor cycle:',
+      'Keep each test focused on one\nbehavior, even for long descriptions',
+    ]);
+    expect(list.type === 'list' && list.items[1].children).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        items: [
+          { marker: '1.', text: '**Red**: Write a failing test', children: [] },
+          { marker: '2.', text: '**Green**: Make it pass', children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('should extract one rule per outer list item', () => {
+    expect(getRules(nodes)).toEqual([
+      '**ALWAYS** write tests first',
+      'Follow the Red-Green-Refactor cycle: **Red**: Write a failing test; **Green**: Make it pass',
+      'Keep each test focused on one behavior, even for long descriptions',
+      'Use TypeScript strict mode',
+      'Prefer `useEffect` cleanup functions',
+    ]);
+  });
+
+  it('should render the tree back to equivalent markdown', () => {
+    expect(parseMarkdown(renderMarkdown(nodes))).toEqual(nodes);
+  });
+});
+
+describe('convertContentToRules', () => {
+  it('should keep the case of names and code in rules', () => {
+    const section = { id: 'tools-testing', section: 'tools', content, priority: 1, apply: 'always' as const };
+    expect(convertContentToRules(section).slice(3)).toEqual([
+      'Generate code that use TypeScript strict mode',
+      'Generate code that prefer `useEffect` cleanup functions',
+    ]);
+  });
+
+  it('should prefix rules with their severity', () => {
+    const section = {
+      id: 'tools-testing',
+      section: 'tools',
+      content: '',
+      priority: 1,
+      apply: 'always' as const,
+      rules: [{ id: 'tools-testing.first', severity: 'must' as const, text: 'Write tests first' }],
+    };
+    expect(convertContentToRules(section)).toEqual(['[MUST] Generate code that write tests first']);
+  });
+});
@@ -0,0 +1,153 @@
+import { DisabledRule, RuleCustomization } from '../types.js';
+import {
+  ContentSection,
+  RULE_SEVERITIES,
+  RuleSeverity,
+  SectionRule,
+} from '../../resources/content/types/ContentTypes.js';
+import { ListItem, flattenText, getRuleText, mapRuleItems, parseMarkdown, renderMarkdown } from '../markdown/Markdown.js';
+
+// Severity of rules whose marker and content file state none
+export const DEFAULT_SEVERITY: RuleSeverity = 'should';
+
+// `{#coverage}` or `{#coverage SHOULD}` at the end of a rule's text
+const RULE_MARKER = /\s*\{#([a-z0-9][a-z0-9.-]*)(?:\s+([a-z]+))?\}\s*$/i;
+const ANY_RULE_MARKER = /\s*\{#[a-z0-9][a-z0-9.-]*(?:\s+[a-z]+)?\}/gi;
+
+const SEVERITY_PREFIX = /^\[(MUST|SHOULD|MAY)\] /;
+
+// Rules without a marker get an id from this many of their first words
+const DERIVED_ID_WORDS = 6;
+
+export interface RuleSettingsResult {
+  sections: ContentSection[];
+  disabled: DisabledRule[];
+  // Unknown severities, repeated rule ids and customizations that match no rule
+  warnings: string[];
+}
+
+const parseMarker = (text: string): { text: string; id?: string; severity?: string } => {
+  const match = RULE_MARKER.exec(text);
+  return match ? { text: text.slice(0, match.index), id: match[1], severity: match[2]?.toLowerCase() } : { text };
+};
+
+const isSeverity = (value: string): value is RuleSeverity => (RULE_SEVERITIES as readonly string[]).includes(value);
+
+const deriveRuleId = (text: string): string => {
+  const words = stripRuleMarkers(text).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ');
+  return words.slice(0, DERIVED_ID_WORDS).join('-') || 'rule';
+};
+
+// Split a rule's text from its marker, e.g. ` {#tools-testing.coverage should}`
+export const splitRuleMarker = (text: string): { text: string; marker: string } => {
+  const match = RULE_MARKER.exec(text);
+  return match ? { text: text.slice(0, match.index), marker: match[0].trimEnd() } : { text, marker: '' };
+};
+
+export const stripRuleMarkers = (text: string): string => text.replace(ANY_RULE_MARKER, '');
+
+export const formatSeverity = (severity: RuleSeverity): string => `[${severity.toUpperCase()}]`;
+
+// Split the prefix presentRules() gives a rule, e.g. `[MUST] `, from its text
+export const parseSeverityPrefix = (text: string): { severity?: RuleSeverity; text: string } => {
+  const match = SEVERITY_PREFIX.exec(text);
+  return match ? { severity: match[1].toLowerCase() as RuleSeverity, text: text.slice(match[0].length) } : { text };
+};
+
+/**
+ * Resolve the id and severity of every rule in the sections and apply
+ * `output.customizations`: rules set to "off" are removed, others get the
+ * configured severity. A rule names itself with a marker at the end of its
+ * text, `{#coverage}` or `{#coverage SHOULD}`, and its id is prefixed with the
+ * content id (`tools-testing.coverage`); rules without a marker get an id from
+ * their first words. The resolved markers stay in the content, so later
+ * steps can still move rules around, until presentRules() renders them.
+ *
+ * Customizations naming content that exists but is not included are not
+ * reported; `contentIds` lists every known content id for that check.
+ */
+export const applyRuleSettings = (
+  sections: ContentSection[],
+  customizations: Record<string, RuleCustomization>,
+  contentIds: string[]
+): RuleSettingsResult => {
+  const disabled: DisabledRule[] = [];
+  const warnings: string[] = [];
+  const resolvedIds = new Set<string>();
+
+  const resolvedSections = sections.map(section => {
+    const localIds = new Set<string>();
+
+    const resolve = (item: ListItem): ListItem | null => {
+      if (!getRuleText(item)) {
+        return item;
+      }
+
+      const marker = parseMarker(item.text);
+      let severity = section.severity || DEFAULT_SEVERITY;
+      if (marker.severity && isSeverity(marker.severity)) {
+        severity = marker.severity;
+      } else if (marker.severity) {
+        warnings.push(`${section.id}: Unknown severity "${marker.severity}" for rule "${marker.id}"; use MUST, SHOULD or MAY`);
+      }
+
+      const baseId = marker.id || deriveRuleId(flattenText(marker.text));
+      if (marker.id && localIds.has(baseId)) {
+        warnings.push(`${section.id}: Rule id "${baseId}" is used more than once`);
+      }
+      let localId = baseId;
+      for (let suffix = 2; localIds.has(localId); suffix++) {
+        localId = `${baseId}-${suffix}`;
+      }
+      localIds.add(localId);
+
+      const id = `${section.id}.${localId}`;
+      const customization = customizations[id];
+      resolvedIds.add(id);
+
+      if (customization === 'off') {
+        disabled.push({ id, rule: stripRuleMarkers(getRuleText({ ...item, text: marker.text })) });
+        return null;
+      }
+      return { ...item, text: `${marker.text} {#${id} ${customization || severity}}` };
+    };
+
+    const nodes = parseMarkdown(section.content);
+    const resolved = mapRuleItems(nodes, resolve);
+    return localIds.size > 0 ? { ...section, content: renderMarkdown(resolved) } : section;
+  });
+
+  const knownIds = new Set(contentIds);
+  const includedIds = new Set(sections.map(section => section.id));
+  for (const id of Object.keys(customizations)) {
+    // Content ids cannot contain dots, so the first part names the content
+    const contentId = id.split('.')[0];
+    if (!resolvedIds.has(id) && (!knownIds.has(contentId) || includedIds.has(contentId))) {
+      warnings.push(`output.customizations: No rule "${id}" in the included content`);
+    }
+  }
+
+  return { sections: resolvedSections, disabled, warnings };
+};
+
+/**
+ * Render the markers applyRuleSettings() left in the sections as severity
+ * prefixes, `[MUST] Never commit secrets`, and list each section's rules in
+ * `rules` for formats that lay rules out themselves.
+ */
+export const presentRules = (sections: ContentSection[]): ContentSection[] => {
+  return sections.map(section => {
+    const rules: SectionRule[] = [];
+
+    const nodes = mapRuleItems(parseMarkdown(section.content), item => {
+      const marker = parseMarker(item.text);
+      if (!marker.id || !marker.severity || !isSeverity(marker.severity)) {
+        return item;
+      }
+      rules.push({ id: marker.id, severity: marker.severity, text: getRuleText({ ...item, text: marker.text }) });
+      return { ...item, text: `${formatSeverity(marker.severity)} ${marker.text}` };
+    });
+
+    return rules.length > 0 ? { ...section, content: renderMarkdown(nodes), rules } : { ...section, rules };
+  });
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { applyRuleSettings, presentRules } from '../RuleSettings.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+
+const section = (id: string, content: string, severity?: ContentSection['severity']): ContentSection => ({
+  id,
+  section: 'tools',
+  content,
+  priority: 1,
+  apply: 'always',
+  severity,
+});
+
+const testing = section('tools-testing', [
+  '### Testing',
+  '- Write tests first {#tests-first MUST}',
+  '- Aim for high test coverage {#coverage}',
+  '- Mock external dependencies',
+].join('\n'));
+
+describe('applyRuleSettings', () => {
+  it('should resolve ids and severities, deriving ids for unmarked rules', () => {
+    const { sections } = applyRuleSettings([testing], {}, ['tools-testing']);
+
+    expect(presentRules(sections)[0].rules).toEqual([
+      { id: 'tools-testing.tests-first', severity: 'must', text: 'Write tests first' },
+      { id: 'tools-testing.coverage', severity: 'should', text: 'Aim for high test coverage' },
+      { id: 'tools-testing.mock-external-dependencies', severity: 'should', text: 'Mock external dependencies' },
+    ]);
+  });
+
+  it('should use the content severity for rules without one', () => {
+    const { sections } = applyRuleSettings([section('tools-extra', '- Prefer fakes {#fakes}', 'may')], {}, ['tools-extra']);
+
+    expect(presentRules(sections)[0].content).toBe('- [MAY] Prefer fakes');
+  });
+
+  it('should remove disabled rules and apply severity overrides', () => {
+    const result = applyRuleSettings(
+      [testing],
+      { 'tools-testing.coverage': 'off', 'tools-testing.tests-first': 'should' },
+      ['tools-testing']
+    );
+
+    expect(presentRules(result.sections)[0].content).toBe([
+      '### Testing',
+      '- [SHOULD] Write tests first',
+      '- [SHOULD] Mock external dependencies',
+    ].join('\n'));
+    expect(result.disabled).toEqual([{ id: 'tools-testing.coverage', rule: 'Aim for high test coverage' }]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should report customizations that match no included rule', () => {
+    const result = applyRuleSettings(
+      [testing],
+      { 'tools-testing.coverge': 'off', 'quality-security.https': 'off', 'unknown.rule': 'must' },
+      ['tools-testing', 'quality-security']
+    );
+
+    expect(result.warnings).toEqual([
+      'output.customizations: No rule "tools-testing.coverge" in the included content',
+      'output.customizations: No rule "unknown.rule" in the included content',
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { GeneratedOutput } from '../types.js';
+import { estimateTokens } from './tokenBudget.js';
 
 export interface FileGenerationOptions {
   outputDir: string;
@@ -13,6 +14,8 @@ export interface GeneratedFile {
   path: string;
   content: string;
   size: number;
+  // Estimated tokens an assistant spends reading the file
+  tokens: number;
   exists: boolean;
   backed_up?: boolean;
 }
@@ -34,66 +37,22 @@ export class FileGenerator {
       await this.ensureDirectoryExists(this.outputDir);
     }
 
-    // Generate CLAUDE.md
-    if (output.claude) {
-      const file = await this.writeFile('CLAUDE.md', output.claude);
-      generatedFiles.push(file);
-    }
-
-    // Generate VS Code settings
-    if (output.vscode) {
-      const vscodeDir = path.join(this.outputDir, '.vscode');
-      if (!this.options.dryRun) {
-        await this.ensureDirectoryExists(vscodeDir);
-      }
-      
-      const file = await this.writeFile('.vscode/settings.json', output.vscode);
-      generatedFiles.push(file);
-
-      // Also generate extensions.json if VS Code format requested
-      const extensionsContent = this.extractExtensionsFromVSCode(output.vscode);
-      if (extensionsContent) {
-        const extensionsFile = await this.writeFile('.vscode/extensions.json', extensionsContent);
-        generatedFiles.push(extensionsFile);
-      }
-    }
-
-    // Generate README.md
-    if (output.readme) {
-      const file = await this.writeFile('README.md', output.readme);
-      generatedFiles.push(file);
-    }
-
-    // Generate Cursor rules
-    if (output.cursor) {
-      const file = await this.writeFile('.cursorrules', output.cursor);
-      generatedFiles.push(file);
-    }
-
-    // Generate Copilot instructions
-    if (output.copilot) {
-      const githubDir = path.join(this.outputDir, '.github');
-      if (!this.options.dryRun) {
-        await this.ensureDirectoryExists(githubDir);
+    // Write every file rendered by each format, creating parent directories as needed
+    for (const files of Object.values(output.formats)) {
+      for (const outputFile of files) {
+        const parentDir = path.dirname(path.join(this.outputDir, outputFile.path));
+        if (!this.options.dryRun) {
+          await this.ensureDirectoryExists(parentDir);
+        }
+        const file = await this.writeFile(outputFile.path, outputFile.content);
+        generatedFiles.push(file);
       }
-      const file = await this.writeFile('.github/copilot-instructions.md', output.copilot);
-      generatedFiles.push(file);
-    }
-
-    // Generate Roo Code instructions
-    if (output.roocode) {
-      const rooDir = path.join(this.outputDir, '.roo/rules');
-      if (!this.options.dryRun) {
-        await this.ensureDirectoryExists(rooDir);
-      }
-      const file = await this.writeFile('.roo/rules/instructions.md', output.roocode);
-      generatedFiles.push(file);
     }
 
     // Generate metadata file
     const metadataFile = await this.writeFile(
       '.ai-rules-metadata.json',
-      JSON.stringify(output.metadata, null, 2)
+      `${JSON.stringify(output.metadata, null, 2)}\n`
     );
     generatedFiles.push(metadataFile);
 
@@ -127,6 +86,7 @@ export class FileGenerator {
       path: relativePath,
       content,
       size: Buffer.byteLength(content, 'utf-8'),
+      tokens: estimateTokens(content),
       exists,
       backed_up,
     };
@@ -149,18 +109,6 @@ export class FileGenerator {
     }
   }
 
-  private extractExtensionsFromVSCode(vscodeSettings: string): string | null {
-    try {
-      const settings = JSON.parse(vscodeSettings);
-      if (settings.extensions) {
-        return JSON.stringify({ recommendations: settings.extensions.recommendations || [] }, null, 2);
-      }
-    } catch {
-      // Invalid JSON, skip extensions
-    }
-    return null;
-  }
-
   static async generateToDirectory(
     output: GeneratedOutput,
     targetDir: string,
@@ -200,6 +148,7 @@ export class FileGenerator {
   static summarizeGeneration(files: GeneratedFile[]): {
     totalFiles: number;
     totalSize: string;
+    totalTokens: number;
     existingFiles: number;
     newFiles: number;
     backedUpFiles: number;
@@ -211,6 +160,7 @@ export class FileGenerator {
     return {
       totalFiles: files.length,
       totalSize: FileGenerator.formatFileSize(totalSize),
+      totalTokens: files.reduce((sum, file) => sum + file.tokens, 0),
       existingFiles,
       newFiles: files.length - existingFiles,
       backedUpFiles,
@@ -0,0 +1,371 @@
+import { ExpressionError, ExpressionNode, evaluateExpression, isTruthy, parseExpression } from '../expressions/Expression.js';
+
+/**
+ * Handlebars-style templates for content and format files:
+ *
+ *   {{ output.projectName }}                     value of any context path or expression
+ *   {{#if expr}} … {{else if expr}} … {{else}} … {{/if}}
+ *   {{#unless expr}} … {{else}} … {{/unless}}
+ *   {{#each expr as item}} … {{else}} … {{/each}}  also exposes this, @index, @key, @first, @last
+ *   {{> partial-name}}                           renders a registered partial with the same context
+ *   {{! comment }}
+ *
+ * Block, partial and comment tags on a line of their own do not leave blank
+ * lines behind. Referencing a variable that does not exist is an error that
+ * reports the template file, line and column.
+ */
+
+export class TemplateError extends Error {
+  file?: string;
+  line: number;
+  column: number;
+
+  constructor(reason: string, file: string | undefined, line: number, column: number) {
+    super(`${reason} (${file || 'template'}:${line}:${column})`);
+    this.name = 'TemplateError';
+    this.file = file;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface TemplateRendererOptions {
+  // Partial templates by name, referenced as {{> name}}
+  partials?: Record<string, string>;
+}
+
+interface SourceLocation {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+interface ExpressionTag {
+  expression: ExpressionNode;
+  location: SourceLocation;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; tag: ExpressionTag }
+  | { type: 'if'; branches: Array<{ tag: ExpressionTag; negate: boolean; body: TemplateNode[] }>; elseBody: TemplateNode[] }
+  | { type: 'each'; tag: ExpressionTag; alias?: string; body: TemplateNode[]; elseBody: TemplateNode[] }
+  | { type: 'partial'; name: string; location: SourceLocation };
+
+interface OpenBlock {
+  kind: 'if' | 'unless' | 'each';
+  node: TemplateNode & { type: 'if' | 'each' };
+  location: SourceLocation;
+  inElse: boolean;
+}
+
+type Scope = Record<string, any>;
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+export class TemplateRenderer {
+  private partials: Record<string, string>;
+  private parsedPartials: Map<string, TemplateNode[]> = new Map();
+
+  constructor(options: TemplateRendererOptions = {}) {
+    this.partials = options.partials || {};
+  }
+
+  render(template: string, context: Record<string, any>, file?: string): string {
+    const nodes = this.parse(template, file);
+    return this.renderNodes(nodes, [context], 0);
+  }
+
+  /**
+   * Parse a template without rendering it, so syntax errors can be reported
+   * when a template is loaded rather than when it is first used.
+   */
+  parse(template: string, file?: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+    const lineStarts = this.getLineStarts(template);
+    let cursor = 0;
+
+    const currentBody = (): TemplateNode[] => {
+      const block = stack[stack.length - 1];
+      if (!block) {
+        return root;
+      }
+      if (block.node.type === 'each') {
+        return block.inElse ? block.node.elseBody : block.node.body;
+      }
+      return block.inElse ? block.node.elseBody : block.node.branches[block.node.branches.length - 1].body;
+    };
+
+    const pushText = (value: string) => {
+      if (value.length > 0) {
+        currentBody().push({ type: 'text', value });
+      }
+    };
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+      const tagStart = match.index!;
+      const tagEnd = tagStart + match[0].length;
+      const content = match[1].trim();
+      const location = this.getLocation(lineStarts, tagStart, file);
+      const contentOffset = match[0].indexOf(match[1]) + (match[1].length - match[1].trimStart().length);
+
+      const isStandaloneKind = /^[#/!>]/.test(content) || /^else\b/.test(content);
+      let textEnd = tagStart;
+      let nextCursor = tagEnd;
+
+      if (isStandaloneKind) {
+        const lineStart = template.lastIndexOf('\n', tagStart - 1) + 1;
+        const newline = template.indexOf('\n', tagEnd);
+        const lineEnd = newline === -1 ? template.length : newline;
+        if (template.slice(lineStart, tagStart).trim() === '' && template.slice(tagEnd, lineEnd).trim() === '') {
+          textEnd = Math.max(lineStart, cursor);
+          nextCursor = newline === -1 ? template.length : newline + 1;
+        }
+      }
+
+      pushText(template.slice(cursor, textEnd));
+      cursor = nextCursor;
+
+      const expressionAt = (source: string, offset: number): ExpressionTag => ({
+        expression: this.parseTagExpression(source, lineStarts, tagStart + contentOffset + offset, file),
+        location,
+      });
+
+      if (content.startsWith('!')) {
+        continue;
+      }
+
+      if (content.startsWith('>')) {
+        const name = content.slice(1).trim();
+        if (!name) {
+          throw new TemplateError('Missing partial name', file, location.line, location.column);
+        }
+        currentBody().push({ type: 'partial', name, location });
+        continue;
+      }
+
+      if (content.startsWith('#')) {
+        const blockMatch = /^#(\w+)\s*/.exec(content)!;
+        const kind = blockMatch[1];
+        const rest = content.slice(blockMatch[0].length);
+        if (!rest) {
+          throw new TemplateError(`Missing expression for {{#${kind}}}`, file, location.line, location.column);
+        }
+
+        if (kind === 'if' || kind === 'unless') {
+          const node: TemplateNode & { type: 'if' } = {
+            type: 'if',
+            branches: [{ tag: expressionAt(rest, blockMatch[0].length), negate: kind === 'unless', body: [] }],
+            elseBody: [],
+          };
+          currentBody().push(node);
+          stack.push({ kind, node, location, inElse: false });
+        } else if (kind === 'each') {
+          const aliasMatch = /^([\s\S]+?)\s+as\s+([A-Za-z_$][\w$]*)$/.exec(rest);
+          const node: TemplateNode & { type: 'each' } = {
+            type: 'each',
+            tag: expressionAt(aliasMatch ? aliasMatch[1] : rest, blockMatch[0].length),
+            alias: aliasMatch ? aliasMatch[2] : undefined,
+            body: [],
+            elseBody: [],
+          };
+          currentBody().push(node);
+          stack.push({ kind, node, location, inElse: false });
+        } else {
+          throw new TemplateError(`Unknown block "#${kind}"; expected #if, #unless or #each`, file, location.line, location.column);
+        }
+        continue;
+      }
+
+      if (/^else\b/.test(content)) {
+        const block = stack[stack.length - 1];
+        if (!block || block.inElse) {
+          throw new TemplateError('Unexpected {{else}}', file, location.line, location.column);
+        }
+        const elseIf = /^else\s+if\s+/.exec(content);
+        if (elseIf) {
+          if (block.node.type !== 'if') {
+            throw new TemplateError('{{else if}} is only allowed inside {{#if}} or {{#unless}}', file, location.line, location.column);
+          }
+          block.node.branches.push({ tag: expressionAt(content.slice(elseIf[0].length), elseIf[0].length), negate: false, body: [] });
+        } else {
+          block.inElse = true;
+        }
+        continue;
+      }
+
+      if (content.startsWith('/')) {
+        const kind = content.slice(1).trim();
+        const block = stack.pop();
+        if (!block) {
+          throw new TemplateError(`Unexpected {{/${kind}}} without a matching block`, file, location.line, location.column);
+        }
+        if (block.kind !== kind) {
+          throw new TemplateError(
+            `Expected {{/${block.kind}}} to close the block opened at line ${block.location.line} but found {{/${kind}}}`,
+            file, location.line, location.column
+          );
+        }
+        continue;
+      }
+
+      currentBody().push({ type: 'output', tag: expressionAt(content, 0) });
+    }
+
+    pushText(template.slice(cursor));
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new TemplateError(`Unclosed {{#${unclosed.kind}}} block`, file, unclosed.location.line, unclosed.location.column);
+    }
+
+    return root;
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: Scope[], depth: number): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'output':
+          output += this.stringify(this.evaluate(node.tag, scopes));
+          break;
+
+        case 'if': {
+          const branch = node.branches.find(candidate => {
+            const value = isTruthy(this.evaluate(candidate.tag, scopes));
+            return candidate.negate ? !value : value;
+          });
+          output += this.renderNodes(branch ? branch.body : node.elseBody, scopes, depth);
+          break;
+        }
+
+        case 'each': {
+          const value = this.evaluate(node.tag, scopes);
+          const entries: Array<[string | number, any]> = Array.isArray(value)
+            ? value.map((item, index) => [index, item])
+            : value != null && typeof value === 'object' ? Object.entries(value) : [];
+
+          if (entries.length === 0) {
+            output += this.renderNodes(node.elseBody, scopes, depth);
+            break;
+          }
+
+          entries.forEach(([key, item], index) => {
+            const scope: Scope = {
+              this: item,
+              '@index': index,
+              '@key': key,
+              '@first': index === 0,
+              '@last': index === entries.length - 1,
+            };
+            if (node.alias) {
+              scope[node.alias] = item;
+            }
+            output += this.renderNodes(node.body, [...scopes, scope], depth);
+          });
+          break;
+        }
+
+        case 'partial':
+          output += this.renderPartial(node.name, node.location, scopes, depth);
+          break;
+      }
+    }
+
+    return output;
+  }
+
+  private renderPartial(name: string, location: SourceLocation, scopes: Scope[], depth: number): string {
+    if (!(name in this.partials)) {
+      throw new TemplateError(`Unknown partial "${name}"`, location.file, location.line, location.column);
+    }
+    if (depth >= MAX_PARTIAL_DEPTH) {
+      throw new TemplateError(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`, location.file, location.line, location.column);
+    }
+
+    if (!this.parsedPartials.has(name)) {
+      this.parsedPartials.set(name, this.parse(this.partials[name], `partials/${name}`));
+    }
+    return this.renderNodes(this.parsedPartials.get(name)!, scopes, depth + 1);
+  }
+
+  private evaluate(tag: ExpressionTag, scopes: Scope[]): any {
+    try {
+      return evaluateExpression(tag.expression, {
+        resolve: segments => this.resolvePath(segments, scopes),
+      });
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        throw new TemplateError(error.message, tag.location.file, tag.location.line, tag.location.column);
+      }
+      throw error;
+    }
+  }
+
+  private resolvePath(segments: string[], scopes: Scope[]): any {
+    const [first, ...rest] = segments;
+    const scope = [...scopes].reverse().find(candidate => first in candidate);
+    if (!scope) {
+      throw new ExpressionError(`Unknown variable "${segments.join('.')}"`, 0);
+    }
+
+    let value = scope[first];
+    for (let i = 0; i < rest.length; i++) {
+      if (value == null || !(rest[i] in Object(value))) {
+        throw new ExpressionError(`Unknown variable "${segments.slice(0, i + 2).join('.')}"`, 0);
+      }
+      value = value[rest[i]];
+    }
+    return value;
+  }
+
+  private stringify(value: any): string {
+    if (value == null) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.join(', ');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private parseTagExpression(source: string, lineStarts: number[], offset: number, file?: string): ExpressionNode {
+    try {
+      return parseExpression(source);
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        const location = this.getLocation(lineStarts, offset + error.position, file);
+        throw new TemplateError(error.message, file, location.line, location.column);
+      }
+      throw error;
+    }
+  }
+
+  private getLineStarts(template: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < template.length; i++) {
+      if (template[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+
+  private getLocation(lineStarts: number[], offset: number, file?: string): SourceLocation {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { file, line: line + 1, column: offset - lineStarts[line] + 1 };
+  }
+}
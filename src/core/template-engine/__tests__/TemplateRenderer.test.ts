@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateRenderer, TemplateError } from '../TemplateRenderer.js';
+import { createConfigContext } from '../templateContext.js';
+import { ProjectConfigSchema } from '../../types.js';
+
+const context = createConfigContext(ProjectConfigSchema.parse({
+  projectType: 'typescript',
+  tools: { testing: ['vitest', 'playwright'], uiFramework: 'react' },
+  output: { projectName: 'Test Project' },
+}));
+
+const render = (template: string, partials: Record<string, string> = {}) => {
+  return new TemplateRenderer({ partials }).render(template, context, 'test.md');
+};
+
+describe('TemplateRenderer', () => {
+  it('should output any config path', () => {
+    expect(render('{{output.projectName}} uses {{ tools.uiFramework }}')).toBe('Test Project uses react');
+  });
+
+  it('should replace every occurrence of a variable', () => {
+    expect(render('{{projectType}} and {{projectType}}')).toBe('typescript and typescript');
+  });
+
+  it('should render unset optional fields as empty', () => {
+    expect(render('[{{tools.stateManagement}}]')).toBe('[]');
+  });
+
+  it('should call expression functions', () => {
+    expect(render('{{join(tools.testing, " and ")}}')).toBe('vitest and playwright');
+  });
+
+  it('should evaluate if, else if and else branches', () => {
+    const template = '{{#if projectType == "python"}}py{{else if "vitest" in tools.testing}}vitest{{else}}other{{/if}}';
+    expect(render(template)).toBe('vitest');
+  });
+
+  it('should evaluate unless blocks', () => {
+    expect(render('{{#unless tools.i18n}}no i18n{{else}}i18n{{/unless}}')).toBe('no i18n');
+  });
+
+  it('should iterate arrays with each', () => {
+    const template = '{{#each tools.testing as framework}}{{@index}}:{{framework}}{{#unless @last}}, {{/unless}}{{/each}}';
+    expect(render(template)).toBe('0:vitest, 1:playwright');
+  });
+
+  it('should render the else branch of each for empty arrays', () => {
+    expect(render('{{#each output.plugins}}{{this}}{{else}}none{{/each}}')).toBe('none');
+  });
+
+  it('should support nested blocks', () => {
+    const template = '{{#if philosophy.tdd}}{{#each tools.testing}}{{#if this == "vitest"}}[{{this}}]{{/if}}{{/each}}{{/if}}';
+    expect(render(template)).toBe('[vitest]');
+  });
+
+  it('should not leave blank lines for standalone block tags', () => {
+    const template = '- first\n{{#if philosophy.tdd}}\n- tdd\n{{/if}}\n{{! comment }}\n- last';
+    expect(render(template)).toBe('- first\n- tdd\n- last');
+  });
+
+  it('should render partials with the current context', () => {
+    const partials = { 'shared/name': 'Project: {{output.projectName}}' };
+    expect(render('{{> shared/name}}!', partials)).toBe('Project: Test Project!');
+  });
+
+  it('should report unknown variables with file and line', () => {
+    try {
+      render('line one\n  {{tools.uiFrameworks}}');
+      expect.fail('expected a TemplateError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplateError);
+      expect((error as TemplateError).message).toBe('Unknown variable "tools.uiFrameworks" (test.md:2:3)');
+      expect((error as TemplateError).line).toBe(2);
+    }
+  });
+
+  it('should report syntax errors at the offending position', () => {
+    expect(() => render('{{#if projectType ==}}x{{/if}}')).toThrow('Unexpected end of expression (test.md:1:21)');
+  });
+
+  it('should report unclosed and mismatched blocks', () => {
+    expect(() => render('\n{{#if philosophy.tdd}}x')).toThrow('Unclosed {{#if}} block (test.md:2:1)');
+    expect(() => render('{{#if philosophy.tdd}}x{{/each}}')).toThrow('Expected {{/if}}');
+  });
+
+  it('should report unknown partials and functions', () => {
+    expect(() => render('{{> missing}}')).toThrow('Unknown partial "missing"');
+    expect(() => render('{{shout(projectType)}}')).toThrow('Unknown function "shout"');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getGenerationDate, formatGenerationDate, hashInputs, isDeterministic, normalizeOutput } from '../reproducibility.js';
+import { TemplateEngine } from '../TemplateEngine.js';
+import { ProjectConfigSchema } from '../../types.js';
+
+const config = ProjectConfigSchema.parse({ projectType: 'typescript', output: { formats: ['claude', 'cursor'] } });
+
+describe('reproducibility', () => {
+  it('should default to deterministic output in CI only', () => {
+    expect(isDeterministic(config, { CI: 'true' })).toBe(true);
+    expect(isDeterministic(config, { CI: 'false' })).toBe(false);
+    expect(isDeterministic(config, {})).toBe(false);
+    expect(isDeterministic({ ...config, output: { ...config.output, deterministic: false } }, { CI: 'true' })).toBe(false);
+  });
+
+  it('should fix the date from SOURCE_DATE_EPOCH and leave it out otherwise', () => {
+    expect(formatGenerationDate(getGenerationDate(true, { SOURCE_DATE_EPOCH: '1700000000' }))).toBe('2023-11-14');
+    expect(getGenerationDate(true, {})).toBeUndefined();
+    expect(getGenerationDate(false, {})).toBeInstanceOf(Date);
+  });
+
+  it('should normalize line endings and the final newline', () => {
+    expect(normalizeOutput('a\r\nb\rc\n\n\n')).toBe('a\nb\nc\n');
+    expect(normalizeOutput('a')).toBe('a\n');
+  });
+
+  it('should hash equal inputs equally regardless of key order', () => {
+    const reordered = ProjectConfigSchema.parse({ output: { formats: ['claude', 'cursor'] }, projectType: 'typescript' });
+    expect(hashInputs(reordered, [], {})).toBe(hashInputs(config, [], {}));
+    expect(hashInputs(config, [], { claude: '{{sections}}' })).not.toBe(hashInputs(config, [], {}));
+  });
+
+  it('should generate byte-identical files for identical inputs', async () => {
+    const deterministic = { ...config, output: { ...config.output, deterministic: true } };
+    const first = await new TemplateEngine().generateInstructions(deterministic);
+    const second = await new TemplateEngine().generateInstructions(deterministic);
+
+    expect(second.formats).toEqual(first.formats);
+    expect(second.metadata.inputHash).toBe(first.metadata.inputHash);
+    expect(first.metadata.generatedAt).toBeUndefined();
+    expect(first.formats.claude[0].content).toContain('Generated by ai-rules for typescript project\n');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { condenseContent, estimateTokens, fitToBudget } from '../tokenBudget.js';
+import { TemplateEngine } from '../TemplateEngine.js';
+import { ProjectConfigSchema } from '../../types.js';
+import { ContentSection } from '../../../resources/content/types/ContentTypes.js';
+import { applyRuleSettings, presentRules } from '../../rules/RuleSettings.js';
+
+const section = (id: string, priority: number, content: string): ContentSection => ({
+  id,
+  section: 'tools',
+  content,
+  priority,
+  apply: 'always',
+});
+
+const renderJoined = async (sections: ContentSection[]) => [
+  { path: 'RULES.md', content: sections.map(item => item.content).join('\n') },
+];
+
+describe('condenseContent', () => {
+  it('should keep headings and bullets, dropping prose and code blocks', () => {
+    const content = [
+      '### Testing',
+      'Tests document behavior.',
+      '- Write tests first',
+      '  1. Red',
+      '  2. Green',
+      '```bash',
+      '- not a bullet',
+      '```',
+      '- Keep tests small',
+    ].join('\n');
+
+    expect(condenseContent(content)).toBe('### Testing\n- Write tests first Red; Green\n- Keep tests small');
+  });
+
+  it('should fold nested lists into their parent bullet', () => {
+    const content = [
+      '- Follow the Red-Green-Refactor cycle:',
+      '  1. **Red**: Write a failing test',
+      '  2. **Green**: Make it pass',
+      '     - With the least code',
+      '  3. **Refactor**: Clean up',
+    ].join('\n');
+
+    expect(condenseContent(content)).toBe(
+      '- Follow the Red-Green-Refactor cycle: **Red**: Write a failing test; **Green**: Make it pass; With the least code; **Refactor**: Clean up'
+    );
+  });
+
+  it('should keep the marker of a rule with nested items at the end', () => {
+    const content = '### TDD\n- Follow the cycle: {#cycle MUST}\n  1. Red\n  2. Green\n- Keep tests small';
+    const [marked] = applyRuleSettings([section('philosophy-tdd', 1, content)], {}, ['philosophy-tdd']).sections;
+
+    const [presented] = presentRules([{ ...marked, content: condenseContent(marked.content) }]);
+
+    expect(presented.content).toBe('### TDD\n- [MUST] Follow the cycle: Red; Green\n- [SHOULD] Keep tests small');
+    expect(presented.rules).toEqual([
+      { id: 'philosophy-tdd.cycle', severity: 'must', text: 'Follow the cycle: Red; Green' },
+      expect.objectContaining({ severity: 'should', text: 'Keep tests small' }),
+    ]);
+  });
+});
+
+describe('fitToBudget', () => {
+  const sections = [
+    section('core', 1, '### Core\n- Rule'),
+    section('extra', 5, `### Extra\n- Rule\n${'Details that can go. '.repeat(20)}`),
+    section('optional', 5, `### Optional\n${'Prose. '.repeat(40)}`),
+  ];
+
+  it('should leave output within budget untouched', async () => {
+    const { usage } = await fitToBudget(sections, 10000, renderJoined);
+
+    expect(usage).toEqual({ tokens: expect.any(Number), budget: 10000, condensed: [], dropped: [] });
+  });
+
+  it('should condense the lowest-priority sections first', async () => {
+    const full = estimateTokens(sections.map(item => item.content).join('\n'));
+    const { files, usage } = await fitToBudget(sections, full - 50, renderJoined);
+
+    expect(usage.condensed).toEqual(['optional']);
+    expect(usage.dropped).toEqual([]);
+    expect(files[0].content).toMatch(/### Optional$/);
+    expect(usage.tokens).toBeLessThanOrEqual(full - 50);
+  });
+
+  it('should drop sections when condensing is not enough', async () => {
+    const { files, usage } = await fitToBudget(sections, 5, renderJoined);
+
+    expect(usage.dropped).toEqual(['optional', 'extra']);
+    expect(usage.condensed).toEqual([]);
+    expect(files[0].content).toBe('### Core\n- Rule');
+  });
+});
+
+describe('TemplateEngine token budgets', () => {
+  it('should record token usage and trimming per format in metadata', async () => {
+    const config = ProjectConfigSchema.parse({
+      projectType: 'typescript',
+      output: { formats: ['claude', 'readme'], tokenBudgets: { claude: 300 } },
+    });
+
+    const output = await new TemplateEngine().generateInstructions(config);
+    const claude = output.metadata.tokens.claude;
+
+    expect(claude.budget).toBe(300);
+    expect(claude.tokens).toBeLessThanOrEqual(300);
+    expect([...claude.condensed, ...claude.dropped].length).toBeGreaterThan(0);
+    expect(output.metadata.tokens.readme).toEqual({ tokens: expect.any(Number), budget: undefined, condensed: [], dropped: [] });
+  });
+});
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { ProjectConfig } from '../types.js';
+import { ContentSection } from '../../resources/content/types/ContentTypes.js';
+
+// package.json sits two levels up from both src/core/template-engine and dist/core/template-engine
+export const GENERATOR_VERSION: string = createRequire(import.meta.url)('../../../package.json').version;
+
+type Environment = Record<string, string | undefined>;
+
+/**
+ * Whether generation leaves out anything that changes between runs, such as
+ * the date. Defaults to on in CI, where regenerated files are compared.
+ */
+export const isDeterministic = (config: ProjectConfig, env: Environment = process.env): boolean => {
+  return config.output.deterministic ?? (env.CI !== undefined && !['', '0', 'false'].includes(env.CI.toLowerCase()));
+};
+
+/**
+ * The date recorded in generated files. SOURCE_DATE_EPOCH (seconds, as used
+ * by reproducible builds) fixes it in any mode; otherwise deterministic
+ * output has none.
+ */
+export const getGenerationDate = (deterministic: boolean, env: Environment = process.env): Date | undefined => {
+  if (env.SOURCE_DATE_EPOCH && /^\d+$/.test(env.SOURCE_DATE_EPOCH)) {
+    return new Date(Number(env.SOURCE_DATE_EPOCH) * 1000);
+  }
+  return deterministic ? undefined : new Date();
+};
+
+// YYYY-MM-DD in UTC, the same under every locale and time zone
+export const formatGenerationDate = (date: Date | undefined): string => {
+  return date ? date.toISOString().slice(0, 10) : '';
+};
+
+// LF line endings and exactly one newline at the end
+export const normalizeOutput = (content: string): string => {
+  return content.replace(/\r\n?/g, '\n').replace(/\n*$/, '\n');
+};
+
+// JSON with object keys sorted, so equal values always serialize the same way
+const canonicalJson = (value: unknown): string => {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+    }
+    return nested;
+  });
+};
+
+/**
+ * Hash of everything output is generated from: the config, the generator
+ * version, the content selected for it and the layout template of each
+ * format, including user, project and pack files. Equal hashes mean
+ * byte-identical files in deterministic mode.
+ */
+export const hashInputs = (config: ProjectConfig, sections: ContentSection[], templates: Record<string, string>): string => {
+  const hash = createHash('sha256');
+  hash.update(canonicalJson({
+    version: GENERATOR_VERSION,
+    config,
+    content: sections.map(section => ({ id: section.id, content: section.content })),
+    templates,
+  }));
+  return `sha256:${hash.digest('hex')}`;
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ProjectConfig, ProjectConfigSchema } from '../types.js';
+
+const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  let current = schema;
+  while (
+    current instanceof z.ZodDefault ||
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodNullable ||
+    current instanceof z.ZodEffects
+  ) {
+    current = current instanceof z.ZodEffects ? current.innerType() : current._def.innerType;
+  }
+  return current;
+};
+
+/**
+ * Copy `value`, adding every key declared by `schema` that is missing (e.g.
+ * unset optional fields) as `undefined`, so templates can tell a known but
+ * empty value from a misspelled variable.
+ */
+export const withSchemaKeys = (schema: z.ZodTypeAny, value: any): any => {
+  const inner = unwrapSchema(schema);
+  if (!(inner instanceof z.ZodObject) || value == null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const result: Record<string, any> = { ...value };
+  for (const [key, childSchema] of Object.entries(inner.shape as Record<string, z.ZodTypeAny>)) {
+    result[key] = withSchemaKeys(childSchema, value[key]);
+  }
+  return result;
+};
+
+export const createConfigContext = (config: ProjectConfig): Record<string, any> => {
+  return withSchemaKeys(ProjectConfigSchema, config);
+};
@@ -0,0 +1,98 @@
+import { OutputFile, TokenUsage } from '../types.js';
+import { ContentSection } from '../../resources/content/types/ContentTypes.js';
+import { MarkdownNode, getRuleText, parseMarkdown, renderMarkdown } from '../markdown/Markdown.js';
+import { splitRuleMarker } from '../rules/RuleSettings.js';
+
+// Rough average for English prose and markdown with common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+export const estimateFileTokens = (files: OutputFile[]): number => {
+  return files.reduce((sum, file) => sum + estimateTokens(file.content), 0);
+};
+
+/**
+ * Shorten a content section to its headings and top-level bullets, dropping
+ * code blocks and prose. Nested items are folded into their parent bullet,
+ * as in getRules, so a bullet that introduces a list keeps its steps.
+ */
+export const condenseContent = (content: string): string => {
+  const condensed: MarkdownNode[] = [];
+
+  for (const node of parseMarkdown(content)) {
+    if (node.type === 'heading') {
+      condensed.push(node);
+    } else if (node.type === 'list') {
+      const items = node.items.map(item => {
+        // The rule's marker has to stay at the end, after the folded items
+        const { text, marker } = splitRuleMarker(item.text);
+        return { ...item, text: `${getRuleText({ ...item, text })}${marker}`, children: [] };
+      });
+      const previous = condensed[condensed.length - 1];
+      // Lists that were only separated by dropped prose become one list
+      if (previous && previous.type === 'list' && previous.ordered === node.ordered) {
+        previous.items.push(...items);
+      } else {
+        condensed.push({ ...node, items });
+      }
+    }
+  }
+
+  return renderMarkdown(condensed);
+};
+
+/**
+ * Render `sections` and, while the result is over `budget`, condense and then
+ * drop sections from the lowest priority (highest `priority` value) up. Layout
+ * that does not come from sections is never cut, so the result can still be
+ * over budget once every section is gone.
+ */
+export const fitToBudget = async (
+  sections: ContentSection[],
+  budget: number | undefined,
+  render: (sections: ContentSection[]) => Promise<OutputFile[]>
+): Promise<{ files: OutputFile[]; usage: TokenUsage }> => {
+  let current = sections;
+  let files = await render(current);
+  const usage: TokenUsage = { tokens: estimateFileTokens(files), budget, condensed: [], dropped: [] };
+  if (!budget) {
+    return { files, usage };
+  }
+
+  const update = async (next: ContentSection[]) => {
+    current = next;
+    files = await render(current);
+    usage.tokens = estimateFileTokens(files);
+  };
+
+  // Later sections of equal priority go first
+  const candidates = sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => b.section.priority - a.section.priority || b.index - a.index)
+    .map(({ section }) => section);
+
+  for (const section of candidates) {
+    if (usage.tokens <= budget) {
+      break;
+    }
+    const condensed = condenseContent(section.content);
+    if (condensed !== section.content) {
+      await update(current.map(item => (item.id === section.id ? { ...item, content: condensed } : item)));
+      usage.condensed.push(section.id);
+    }
+  }
+
+  for (const section of candidates) {
+    if (usage.tokens <= budget) {
+      break;
+    }
+    await update(current.filter(item => item.id !== section.id));
+    usage.condensed = usage.condensed.filter(id => id !== section.id);
+    usage.dropped.push(section.id);
+  }
+
+  return { files, usage };
+};
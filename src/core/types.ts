@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { ConditionSchema } from './expressions/Condition.js';
+import { PackReferenceSchema } from '../resources/packs/types/PackTypes.js';
+import { RULE_SEVERITIES } from '../resources/content/types/ContentTypes.js';
 
 export type QuestionType = 'single' | 'multiple' | 'boolean' | 'text';
 export type QuestionCategory = 'project' | 'philosophy' | 'tools' | 'quality' | 'infrastructure' | 'output';
@@ -10,6 +13,8 @@ export const QuestionSchema = z.object({
   options: z.array(z.string()).optional(),
   default: z.any().optional(),
   dependencies: z.array(z.string()).optional(),
+  // Condition over earlier answers, keyed by question id
+  when: ConditionSchema.optional(),
   category: z.enum(['project', 'philosophy', 'tools', 'quality', 'infrastructure', 'output']),
   required: z.boolean().default(true),
   description: z.string().optional(),
@@ -17,59 +22,157 @@ export const QuestionSchema = z.object({
 
 export type Question = z.infer<typeof QuestionSchema>;
 
+// A rule turned off, or given another severity
+export const RuleCustomizationSchema = z.union([z.literal('off'), z.enum(RULE_SEVERITIES)]);
+
+export type RuleCustomization = z.infer<typeof RuleCustomizationSchema>;
+
 export const ProjectConfigSchema = z.object({
-  projectType: z.enum(['javascript', 'typescript', 'python', 'other']),
+  projectType: z.enum(['javascript', 'typescript', 'python', 'go', 'rust', 'java', 'other']),
   philosophy: z.object({
     tdd: z.boolean().default(true),
     strictArchitecture: z.boolean().default(true),
     functionalProgramming: z.boolean().default(true),
-  }),
+  }).default({}),
   tools: z.object({
     eslint: z.boolean().default(true),
     stylelint: z.boolean().default(false),
-    testing: z.array(z.enum(['vitest', 'jest', 'react-testing-library', 'cypress', 'playwright'])).default(['vitest', 'react-testing-library']),
+    prettier: z.boolean().default(false),
+    testing: z.array(z.enum([
+      'vitest', 'jest', 'react-testing-library', 'cypress', 'playwright', 'pytest', 'unittest', 'go-test', 'cargo-test', 'junit',
+    ])).default(['vitest', 'react-testing-library']),
+    // Python linters, formatter and type checker
+    ruff: z.boolean().default(false),
+    black: z.boolean().default(false),
+    flake8: z.boolean().default(false),
+    mypy: z.boolean().default(false),
+    // How a Python project installs dependencies and runs tools; pip when omitted
+    packageManager: z.enum(['uv', 'poetry', 'pip']).optional(),
+    // Go, Rust and Java linters
+    golangciLint: z.boolean().default(false),
+    clippy: z.boolean().default(false),
+    checkstyle: z.boolean().default(false),
+    // How a Java project builds and runs tests; Maven when omitted
+    buildTool: z.enum(['maven', 'gradle']).optional(),
     stateManagement: z.enum(['redux', 'zustand', 'context', 'mobx', 'none']).optional(),
     uiFramework: z.enum(['react', 'vue', 'angular', 'svelte', 'none']).optional(),
     i18n: z.boolean().default(false),
-  }),
+    // Translation library the i18n guidance is written for
+    i18nLibrary: z.enum(['i18next', 'react-intl', 'vue-i18n', 'angular-localize', 'gettext']).optional(),
+  }).default({}),
   quality: z.object({
     accessibility: z.boolean().default(true),
     performance: z.boolean().default(true),
     security: z.boolean().default(true),
     codeReview: z.boolean().default(true),
-  }),
+  }).default({}),
   infrastructure: z.object({
     cicd: z.boolean().default(false),
     logging: z.boolean().default(false),
     monitoring: z.boolean().default(false),
     documentation: z.boolean().default(true),
-  }),
+    // Tools the CI/CD, logging and monitoring guidance is written for
+    ciProvider: z.enum(['github-actions', 'gitlab-ci', 'circleci', 'jenkins', 'azure-pipelines']).optional(),
+    logger: z.enum(['pino', 'winston', 'structlog', 'logging']).optional(),
+    monitoringProvider: z.enum(['sentry', 'datadog', 'opentelemetry', 'prometheus']).optional(),
+  }).default({}),
   output: z.object({
-    formats: z.array(z.enum(['claude', 'vscode', 'readme', 'cursor', 'copilot', 'roocode', 'all'])).default(['all']),
+    // Format ids registered in the FormatRegistry, or 'all'
+    formats: z.array(z.string()).default(['all']),
     projectName: z.string().default('My Project'),
-    customizations: z.record(z.any()).default({}),
-  }),
+    // Keyed by rule id, as listed under `rules` in .ai-rules-metadata.json
+    customizations: z.record(RuleCustomizationSchema).default({}),
+    // Format plugin modules, relative to the project directory or package names
+    plugins: z.array(z.string()).default([]),
+    // Per-format settings keyed by format id, validated by each format's optionsSchema
+    formatOptions: z.record(z.record(z.any())).default({}),
+    // Token budgets keyed by format id, replacing the format's default; 0 means no limit
+    tokenBudgets: z.record(z.number().int().nonnegative()).default({}),
+    // Leave the generation date out of every file; defaults to on when the CI
+    // environment variable is set
+    deterministic: z.boolean().optional(),
+  }).default({}),
+  // Rule packs contributing questions, content and formats
+  packs: z.array(PackReferenceSchema).default([]),
+  // Answers to questions contributed by packs, keyed by question id
+  answers: z.record(z.any()).default({}),
 });
 
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 
+export const OutputFileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+});
+
+export type OutputFile = z.infer<typeof OutputFileSchema>;
+
+export const TokenUsageSchema = z.object({
+  // Estimated tokens of every file the format rendered
+  tokens: z.number(),
+  budget: z.number().optional(),
+  // Content ids shortened or left out to stay within the budget
+  condensed: z.array(z.string()),
+  dropped: z.array(z.string()),
+});
+
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+export const DuplicateRuleSchema = z.object({
+  rule: z.string(),
+  // Content id whose copy of the rule was kept, and the one it was removed from
+  keptIn: z.string(),
+  removedFrom: z.string(),
+  // 1 for the same words, lower for near-duplicates
+  similarity: z.number(),
+});
+
+export type DuplicateRule = z.infer<typeof DuplicateRuleSchema>;
+
+// Two included content ids, where the first declares `conflictsWith` the second
+export const ContentConflictSchema = z.object({
+  id: z.string(),
+  conflictsWith: z.string(),
+});
+
+export type ContentConflict = z.infer<typeof ContentConflictSchema>;
+
+export const DisabledRuleSchema = z.object({
+  id: z.string(),
+  rule: z.string(),
+});
+
+export type DisabledRule = z.infer<typeof DisabledRuleSchema>;
+
 export const GeneratedOutputSchema = z.object({
-  claude: z.string().optional(),
-  vscode: z.string().optional(),
-  readme: z.string().optional(),
-  cursor: z.string().optional(),
-  copilot: z.string().optional(),
-  roocode: z.string().optional(),
+  // Rendered files keyed by format id, in generation order
+  formats: z.record(z.array(OutputFileSchema)),
   metadata: z.object({
     conceptsUsed: z.array(z.string()),
-    generatedAt: z.date(),
+    outputs: z.record(z.array(z.string())),
+    // Not set for deterministic output, unless SOURCE_DATE_EPOCH fixes it
+    generatedAt: z.date().optional(),
+    deterministic: z.boolean(),
+    // Generator version and a hash of the config, content and templates the output was generated from
+    version: z.string(),
+    inputHash: z.string(),
     config: ProjectConfigSchema,
+    // Content files that were skipped, e.g. for missing or invalid frontmatter
+    warnings: z.array(z.string()).default([]),
+    // Token estimate and budget trimming per format id
+    tokens: z.record(TokenUsageSchema).default({}),
+    // Rules removed because another included concept already states them
+    duplicates: z.array(DuplicateRuleSchema).default([]),
+    conflicts: z.array(ContentConflictSchema).default([]),
+    // Severity of every included rule by rule id, and the rules turned off in `output.customizations`
+    rules: z.record(z.enum(RULE_SEVERITIES)).default({}),
+    disabledRules: z.array(DisabledRuleSchema).default([]),
   }),
 });
 
 export type GeneratedOutput = z.infer<typeof GeneratedOutputSchema>;
 
-export type CLIMode = 'interactive' | 'generate' | 'preview' | 'list';
+export type CLIMode = 'interactive' | 'generate' | 'preview' | 'list' | 'check';
 
 export interface CLIFlags {
   type?: string;
@@ -79,4 +182,8 @@ export interface CLIFlags {
   config?: string;
   silent?: boolean;
   preview?: boolean;
+  // Rule packs to load, as directories or package names
+  pack?: string[];
+  // Leave timestamps out of generated files; undefined follows the config or CI
+  deterministic?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentLoader, PROJECT_TEMPLATES_DIR } from '../loaders/ContentLoader.js';
+import { ProjectConfigSchema } from '../../../core/types.js';
+import { TemplateError } from '../../../core/template-engine/TemplateRenderer.js';
+import { analyzeContent } from '../../../core/analysis/ContentAnalyzer.js';
+
+const config = ProjectConfigSchema.parse({
+  projectType: 'typescript',
+  output: { projectName: 'Test Project' },
+});
+
+describe('ContentLoader templates', () => {
+  const contentPath = path.join(process.cwd(), 'src/resources/content');
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-templates-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  const writeOverride = async (format: string, template: string) => {
+    const templatesDir = path.join(projectPath, PROJECT_TEMPLATES_DIR);
+    await fs.mkdir(templatesDir, { recursive: true });
+    await fs.writeFile(path.join(templatesDir, `${format}-template.md`), template);
+  };
+
+  it('should render the built-in template for a format', async () => {
+    const loader = new ContentLoader(contentPath, projectPath);
+    const content = await loader.renderTemplate('claude', config, { sections: '### Rules', date: '2026-01-02' });
+
+    expect(content).toBe('# Development Guidelines for Test Project\n\n### Rules\nGenerated on 2026-01-02 for typescript project');
+  });
+
+  it('should prefer a project template over the built-in one', async () => {
+    await writeOverride('claude', '> Acme Corp engineering standards\n\n{{sections}}');
+    const loader = new ContentLoader(contentPath, projectPath);
+
+    expect(await loader.renderTemplate('claude', config, { sections: '### Rules' })).toBe('> Acme Corp engineering standards\n\n### Rules');
+  });
+
+  it('should fall back to the sections alone for formats without a template', async () => {
+    const loader = new ContentLoader(contentPath, projectPath);
+
+    expect(await loader.renderTemplate('custom-format', config, { sections: '### Rules' })).toBe('### Rules');
+  });
+
+  it('should report template errors against the override file', async () => {
+    await writeOverride('claude', '# {{projectTitle}}');
+    const loader = new ContentLoader(contentPath, projectPath);
+
+    await expect(loader.renderTemplate('claude', config, { sections: '' })).rejects.toThrow(TemplateError);
+    await expect(loader.renderTemplate('claude', config, { sections: '' })).rejects.toThrow(
+      `Unknown variable "projectTitle" (${PROJECT_TEMPLATES_DIR}/claude-template.md:1:3)`
+    );
+  });
+});
+
+describe('ContentLoader discovery', () => {
+  let contentPath: string;
+
+  beforeEach(async () => {
+    contentPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-content-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(contentPath, { recursive: true, force: true });
+  });
+
+  const writeContent = async (file: string, content: string) => {
+    const fullPath = path.join(contentPath, 'categories', file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  it('should discover every built-in content file', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+
+    expect((await loader.getContentRules()).length).toBeGreaterThan(0);
+    expect(loader.getIssues()).toEqual([]);
+  });
+
+  it('should include built-in content for the selected UI framework and state management', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+    const vueConfig = ProjectConfigSchema.parse({ projectType: 'typescript', tools: { uiFramework: 'vue', stateManagement: 'mobx' } });
+
+    const ids = (await loader.loadContentForConfig(vueConfig)).map(section => section.id);
+
+    expect(ids).toContain('framework-vue');
+    expect(ids).toContain('state-mobx');
+    expect(ids).not.toContain('framework-react');
+  });
+
+  it('should leave out UI framework and state management content for other languages', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+    const goConfig = ProjectConfigSchema.parse({ projectType: 'go', tools: { uiFramework: 'react', stateManagement: 'context' } });
+
+    const ids = (await loader.loadContentForConfig(goConfig)).map(section => section.id);
+
+    expect(ids.filter(id => id.startsWith('framework-') || id.startsWith('state-'))).toEqual([]);
+  });
+
+  it('should use the pytest guidance instead of the JavaScript testing guidance for Python', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+    const pythonConfig = ProjectConfigSchema.parse({ projectType: 'python', tools: { testing: ['pytest'] } });
+
+    const sections = await loader.loadContentForConfig(pythonConfig);
+    const ids = sections.map(section => section.id);
+
+    expect(ids).toContain('tools-pytest');
+    expect(ids).not.toContain('tools-testing');
+    expect(sections.find(section => section.id === 'tools-pytest')?.globs).toContain('**/test_*.py');
+  });
+
+  it('should report the built-in conflict between Ruff and flake8', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+    const pythonConfig = ProjectConfigSchema.parse({ projectType: 'python', tools: { testing: ['pytest'], ruff: true, flake8: true } });
+
+    const { conflicts } = analyzeContent(await loader.loadContentForConfig(pythonConfig));
+
+    expect(loader.getIssues()).toEqual([]);
+    expect(conflicts).toEqual([{ id: 'tools-flake8', conflictsWith: 'tools-ruff' }]);
+  });
+
+  it('should specialize infrastructure guidance for the selected tools', async () => {
+    const loader = new ContentLoader(path.join(process.cwd(), 'src/resources/content'));
+    const infraConfig = ProjectConfigSchema.parse({
+      projectType: 'typescript',
+      infrastructure: { cicd: true, ciProvider: 'gitlab-ci', logging: true, logger: 'pino' },
+    });
+
+    const sections = await loader.loadContentForConfig(infraConfig);
+    const content = (id: string) => sections.find(section => section.id === id)?.content;
+
+    expect(content('infrastructure-cicd')).toContain('`.gitlab-ci.yml`');
+    expect(content('infrastructure-cicd')).not.toContain('.github/workflows');
+    expect(content('infrastructure-logging')).toContain('logger.child');
+    expect(sections.map(section => section.id)).not.toContain('infrastructure-monitoring');
+  });
+
+  it('should build rules from frontmatter', async () => {
+    await writeContent('tools/testing.md', [
+      '---',
+      'section: tools',
+      'priority: 2',
+      'when: "\'vitest\' in tools.testing"',
+      'globs: ["**/*.test.ts"]',
+      '---',
+      '### Testing',
+    ].join('\n'));
+    const loader = new ContentLoader(contentPath);
+
+    const [rule] = await loader.getContentRules();
+
+    expect(rule).toMatchObject({ id: 'tools-testing', section: 'tools', priority: 2, globs: ['**/*.test.ts'] });
+    expect(await loader.loadContentForConfig(config)).toEqual([
+      expect.objectContaining({ id: 'tools-testing', content: '### Testing', apply: 'auto' }),
+    ]);
+  });
+
+  it('should only include content whose when condition holds', async () => {
+    await writeContent('project/python.md', '---\nsection: language\nwhen: projectType == "python"\n---\n### Python');
+    await writeContent('project/always.md', '---\nid: shared\nsection: language\n---\n### Shared');
+    const loader = new ContentLoader(contentPath);
+
+    const sections = await loader.loadContentForConfig(config);
+
+    expect(sections.map(section => section.id)).toEqual(['shared']);
+  });
+
+  it('should report files without valid frontmatter instead of skipping them silently', async () => {
+    await writeContent('tools/plain.md', '### No frontmatter');
+    await writeContent('tools/invalid.md', '---\nsection: tools\nglob: "*.ts"\n---\n### Typo');
+    await writeContent('tools/broken.md', '---\nsection: tools\nwhen: tools.eslint &&\n---\n### Broken');
+    const loader = new ContentLoader(contentPath);
+
+    expect(await loader.getContentRules()).toEqual([]);
+    expect(loader.getIssues()).toEqual([
+      { file: 'categories/tools/broken.md', message: 'Invalid "when" condition: Unexpected end of expression' },
+      { file: 'categories/tools/invalid.md', message: expect.stringContaining('Unrecognized key(s) in object: \'glob\'') },
+      { file: 'categories/tools/plain.md', message: expect.stringContaining('Missing frontmatter') },
+    ]);
+  });
+
+  it('should accept conditions in object form', async () => {
+    await writeContent('tools/e2e.md', [
+      '---',
+      'section: tools',
+      'when:',
+      '  all:',
+      '    - eq: [projectType, typescript]',
+      '    - includes: [tools.testing, vitest]',
+      '---',
+      '### E2E',
+    ].join('\n'));
+    const loader = new ContentLoader(contentPath);
+
+    expect((await loader.loadContentForConfig(config)).map(section => section.id)).toEqual(['tools-e2e']);
+  });
+
+  it('should type-check conditions against the project config', async () => {
+    await writeContent('a.md', '---\nsection: tools\nwhen: tools.testng\n---\nA');
+    await writeContent('b.md', '---\nsection: tools\nwhen: projectType == "typscript"\n---\nB');
+    await writeContent('c.md', '---\nsection: tools\nwhen: { includes: [tools.testing, mocha] }\n---\nC');
+    const loader = new ContentLoader(contentPath);
+
+    expect(await loader.getContentRules()).toEqual([]);
+    expect(loader.getIssues().map(issue => issue.message)).toEqual([
+      expect.stringContaining('Unknown path "tools.testng"'),
+      expect.stringContaining('"typscript" is not a valid value; expected "javascript" | "typescript"'),
+      expect.stringContaining('"mocha" is not a valid value'),
+    ]);
+  });
+
+  it('should reject duplicate ids', async () => {
+    await writeContent('a.md', '---\nid: same\nsection: tools\n---\nA');
+    await writeContent('b.md', '---\nid: same\nsection: tools\n---\nB');
+    const loader = new ContentLoader(contentPath);
+
+    expect((await loader.getContentRules()).map(rule => rule.contentPath)).toEqual(['categories/a.md']);
+    expect(loader.getIssues()[0].message).toBe('Duplicate id "same" (already used by categories/a.md)');
+  });
+});
+
+describe('ContentLoader layers', () => {
+  let root: string;
+  const builtinPath = () => path.join(root, 'builtin');
+  const userPath = () => path.join(root, 'user');
+  const projectPath = () => path.join(root, 'project');
+
+  const writeFile = async (dir: string, file: string, content: string) => {
+    const fullPath = path.join(dir, file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-layers-'));
+    await writeFile(builtinPath(), 'categories/tools/testing.md', '---\nsection: tools\n---\n### Built-in Testing');
+    await writeFile(builtinPath(), 'categories/tools/linting.md', '---\nsection: tools\n---\n### Built-in Linting');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should let user and project files replace built-in files at the same path', async () => {
+    await writeFile(userPath(), 'categories/tools/testing.md', '---\nsection: tools\n---\n### User Testing');
+    await writeFile(path.join(projectPath(), '.ai-rules'), 'categories/tools/linting.md', '---\nsection: tools\n---\n### Project Linting');
+    const loader = new ContentLoader(builtinPath(), projectPath(), userPath());
+
+    const sections = await loader.loadContentForConfig(config);
+
+    expect((await loader.getContentRules()).map(rule => [rule.id, rule.origin])).toEqual([
+      ['tools-linting', 'project'],
+      ['tools-testing', 'user'],
+    ]);
+    expect(sections.map(section => section.content)).toEqual(['### Project Linting', '### User Testing']);
+  });
+
+  it('should add new project files and report them by their path', async () => {
+    await writeFile(path.join(projectPath(), '.ai-rules'), 'categories/team/review.md', '### Review');
+    const loader = new ContentLoader(builtinPath(), projectPath(), userPath());
+
+    expect(await loader.getContentRules()).toHaveLength(2);
+    expect(loader.getIssues()).toEqual([
+      { file: '.ai-rules/categories/team/review.md', message: expect.stringContaining('Missing frontmatter') },
+    ]);
+  });
+
+  it('should prefer project templates over user templates', async () => {
+    await writeFile(userPath(), 'templates/claude-template.md', 'User {{sections}}');
+    const loader = new ContentLoader(builtinPath(), projectPath(), userPath());
+    expect(await loader.renderTemplate('claude', config, { sections: 'S' })).toBe('User S');
+
+    await writeFile(path.join(projectPath(), PROJECT_TEMPLATES_DIR), 'claude-template.md', 'Project {{sections}}');
+    expect(await loader.renderTemplate('claude', config, { sections: 'S' })).toBe('Project S');
+  });
+});
@@ -1,5 +1,6 @@
 export * from './types/ContentTypes.js';
 export * from './loaders/ContentLoader.js';
+export * from './loaders/frontmatter.js';
 export * from './mapping/content-mapping.js';
 
 // Create default instance for easy use
@@ -1,112 +1,292 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 import { ProjectConfig } from '../../../core/types.js';
-import { ContentSection } from '../types/ContentTypes.js';
-import { getApplicableContent } from '../mapping/content-mapping.js';
+import { ContentIssue, ContentSection } from '../types/ContentTypes.js';
+import { ContentRule, createContentRule, getApplicableContent } from '../mapping/content-mapping.js';
+import { ContentFrontmatterSchema, parseFrontmatter } from './frontmatter.js';
+import { TemplateRenderer, TemplateError } from '../../../core/template-engine/TemplateRenderer.js';
+import { createConfigContext } from '../../../core/template-engine/templateContext.js';
+import { LoadedPack, getPackOrigin } from '../../packs/types/PackTypes.js';
+import { PROJECT_RESOURCES_DIR, ResourceLayer, getResourceLayers } from '../../layers/ResourceLayers.js';
+import { generatedOnFooter } from '../../../core/formats/formatHelpers.js';
 
+// Project-local format templates, relative to the project directory
+export const PROJECT_TEMPLATES_DIR = `${PROJECT_RESOURCES_DIR}/templates`;
+
+// Built-in content ships next to this module, in src/resources/content or dist/resources/content
+const BUILTIN_CONTENT_PATH = fileURLToPath(new URL('..', import.meta.url));
+
+// Content files are discovered below this directory
+const CATEGORIES_DIR = 'categories';
+
+// Used for formats without a template of their own
+const DEFAULT_TEMPLATE = '{{sections}}';
+
+// A content directory: a layer, or a pack whose label names it, e.g. acme-rules@1.2.0:
+interface ContentSource extends ResourceLayer {
+  // Format templates, relative to the source
+  templatesDir: string;
+}
+
+// Files are reported relative to their source, e.g. .ai-rules/categories/tools/testing.md
+const describeFile = (source: ContentSource, contentPath: string): string => `${source.label}${contentPath}`;
+
+/**
+ * Loads content from the built-in content directory, the user's
+ * ~/.config/ai-rules/ and the project's .ai-rules/. A file at the same path
+ * (e.g. categories/tools/testing.md) in a later layer replaces the earlier
+ * one; packs can only add files.
+ */
 export class ContentLoader {
-  private contentPath: string;
+  private layers: ContentSource[];
+  private packs: ContentSource[] = [];
+  // Keyed by describeFile() so files of the same name in different sources stay apart
   private contentCache: Map<string, string> = new Map();
+  private renderer: TemplateRenderer | null = null;
+  private rules: ContentRule[] | null = null;
+  private discoveryIssues: ContentIssue[] = [];
+  private loadIssues: ContentIssue[] = [];
 
-  constructor(contentPath?: string) {
-    this.contentPath = contentPath || path.join(process.cwd(), 'src/resources/content');
+  constructor(contentPath?: string, projectPath?: string, userPath?: string) {
+    this.layers = getResourceLayers(contentPath || BUILTIN_CONTENT_PATH, projectPath || process.cwd(), userPath)
+      .map((layer, index) => ({ ...layer, templatesDir: index === 0 ? 'formats' : 'templates' }));
+  }
+
+  /**
+   * Merge a pack's content, partials and format templates with the built-in
+   * ones. Adding the same pack again has no effect.
+   */
+  addPack(pack: LoadedPack): void {
+    const origin = getPackOrigin(pack);
+    if (this.packs.some(source => source.origin === origin)) {
+      return;
+    }
+    this.packs.push({ origin, path: pack.contentPath, label: `${origin}:`, templatesDir: 'formats' });
+    this.clearCache();
   }
 
   async loadContentForConfig(config: ProjectConfig): Promise<ContentSection[]> {
-    const applicableRules = getApplicableContent(config);
+    const applicableRules = getApplicableContent(await this.getContentRules(), config);
     const sections: ContentSection[] = [];
+    const renderer = await this.getRenderer();
+    const context = createConfigContext(config);
+    this.loadIssues = [];
 
     for (const rule of applicableRules) {
+      const file = describeFile(this.getSource(rule.origin), rule.contentPath);
       try {
-        const content = await this.loadContentFile(rule.contentPath);
-        const processedContent = this.processContentVariables(content, config);
+        const content = await this.loadContentFile(rule);
+        const processedContent = renderer.render(content, context, file);
         
         sections.push({
-          id: this.getContentId(rule.contentPath),
+          id: rule.id,
+          title: rule.title,
           section: rule.section,
           content: processedContent,
-          priority: rule.priority
+          priority: rule.priority,
+          description: rule.description,
+          globs: rule.globs,
+          apply: rule.apply || (rule.globs && rule.globs.length > 0 ? 'auto' : 'always'),
+          formats: rule.formats,
+          conflictsWith: rule.conflictsWith,
+          severity: rule.severity,
         });
       } catch (error) {
-        // Skip files that fail to load
+        // Template mistakes are authoring errors and must be reported
+        if (error instanceof TemplateError) {
+          throw error;
+        }
+        this.loadIssues.push({ file, message: `Could not be loaded: ${(error as Error).message}` });
       }
     }
 
     return sections.sort((a, b) => a.priority - b.priority);
   }
 
-  private async loadContentFile(contentPath: string): Promise<string> {
-    if (this.contentCache.has(contentPath)) {
-      return this.contentCache.get(contentPath)!;
+  /**
+   * Rules for every content file under categories/ of each layer and pack,
+   * built from their frontmatter. Files that cannot be turned into a rule are
+   * listed by getIssues().
+   */
+  async getContentRules(): Promise<ContentRule[]> {
+    if (!this.rules) {
+      this.rules = await this.discoverRules();
     }
+    return this.rules;
+  }
 
-    const fullPath = path.join(this.contentPath, contentPath);
-    const content = await fs.readFile(fullPath, 'utf-8');
-    
-    this.contentCache.set(contentPath, content);
-    return content;
+  // Problems found while discovering rules and during the last loadContentForConfig call
+  getIssues(): ContentIssue[] {
+    return [...this.discoveryIssues, ...this.loadIssues];
   }
 
-  private processContentVariables(content: string, config: ProjectConfig): string {
-    // Simple template variable replacement
-    let processed = content;
-    
-    // Replace testing frameworks
-    if (config.tools.testing.length > 0) {
-      processed = processed.replace('{{testing_frameworks}}', config.tools.testing.join(' and '));
+  private async discoverRules(): Promise<ContentRule[]> {
+    const rules: ContentRule[] = [];
+    const ruleIds = new Map<string, string>();
+    this.discoveryIssues = [];
+
+    // Later layers replace files at the same path; pack files are all added
+    const layered = new Map<string, ContentSource>();
+    for (const layer of this.layers) {
+      for (const contentPath of await this.listFiles(layer, CATEGORIES_DIR)) {
+        layered.set(contentPath, layer);
+      }
     }
-    
-    // Replace conditional blocks
-    if (config.philosophy.tdd) {
-      processed = processed.replace(/{{#if tdd}}([\s\S]*?){{\/if}}/g, '$1');
-    } else {
-      processed = processed.replace(/{{#if tdd}}([\s\S]*?){{\/if}}/g, '');
+    const files = [...layered.keys()].sort().map(contentPath => ({ source: layered.get(contentPath)!, contentPath }));
+    for (const pack of this.packs) {
+      files.push(...(await this.listFiles(pack, CATEGORIES_DIR)).sort().map(contentPath => ({ source: pack, contentPath })));
     }
-    
-    return processed;
-  }
 
-  private getContentId(contentPath: string): string {
-    return contentPath
-      .replace(/^categories\//, '')
-      .replace(/\.md$/, '')
-      .replace(/\//g, '-');
+    for (const { source, contentPath } of files) {
+      const file = describeFile(source, contentPath);
+      const reportIssue = (message: string) => this.discoveryIssues.push({ file, message });
+
+      try {
+        const text = await fs.readFile(path.join(source.path, contentPath), 'utf-8');
+        const parsed = parseFrontmatter(text);
+        if (!parsed) {
+          reportIssue('Missing frontmatter; add at least a `section` field to include this file');
+          continue;
+        }
+
+        const frontmatter = ContentFrontmatterSchema.safeParse(parsed.data);
+        if (!frontmatter.success) {
+          const problems = frontmatter.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+          reportIssue(`Invalid frontmatter: ${problems.join('; ')}`);
+          continue;
+        }
+
+        const rule = createContentRule(contentPath, frontmatter.data, source.origin);
+        if (ruleIds.has(rule.id)) {
+          reportIssue(`Duplicate id "${rule.id}" (already used by ${ruleIds.get(rule.id)})`);
+          continue;
+        }
+
+        ruleIds.set(rule.id, file);
+        this.contentCache.set(file, parsed.body);
+        rules.push(rule);
+      } catch (error) {
+        reportIssue((error as Error).message);
+      }
+    }
+
+    for (const rule of rules) {
+      const unknown = (rule.conflictsWith || []).filter(id => !ruleIds.has(id));
+      if (unknown.length > 0) {
+        const file = describeFile(this.getSource(rule.origin), rule.contentPath);
+        this.discoveryIssues.push({ file, message: `Unknown id(s) in conflictsWith: ${unknown.join(', ')}` });
+      }
+    }
+
+    return rules;
   }
 
-  async loadTemplate(format: string): Promise<string> {
-    const templatePath = path.join(this.contentPath, 'formats', `${format}-template.md`);
+  // Markdown files below `dir` of a source, as forward-slash paths relative to the source
+  private async listFiles(source: ContentSource, dir: string): Promise<string[]> {
     try {
-      return await fs.readFile(templatePath, 'utf-8');
-    } catch (error) {
-      // Return default template if specific template not found
-      return this.getDefaultTemplate(format);
+      // Recursive readdir needs Node.js 18.17+, the minimum in package.json engines
+      const entries = await fs.readdir(path.join(source.path, dir), { recursive: true });
+      return entries
+        .filter(file => file.endsWith('.md'))
+        .map(file => `${dir}/${file.split(path.sep).join('/')}`);
+    } catch {
+      return [];
     }
   }
 
-  private getDefaultTemplate(format: string): string {
-    switch (format) {
-      case 'claude':
-        return `# Development Guidelines for {{projectName}}
+  private getSource(origin: string): ContentSource {
+    return [...this.layers, ...this.packs].find(source => source.origin === origin) || this.layers[0];
+  }
 
-{{sections}}
+  private async loadContentFile(rule: ContentRule): Promise<string> {
+    const source = this.getSource(rule.origin);
+    const file = describeFile(source, rule.contentPath);
+    if (this.contentCache.has(file)) {
+      return this.contentCache.get(file)!;
+    }
 
-Generated on {{date}} for {{projectType}} project`;
-      
-      case 'readme':
-        return `# {{projectName}}
+    const text = await fs.readFile(path.join(source.path, rule.contentPath), 'utf-8');
+    const content = parseFrontmatter(text)?.body ?? text;
+    
+    this.contentCache.set(file, content);
+    return content;
+  }
 
-> Generated development guidelines and project setup
+  private async getRenderer(): Promise<TemplateRenderer> {
+    if (!this.renderer) {
+      this.renderer = new TemplateRenderer({ partials: await this.loadPartials() });
+    }
+    return this.renderer;
+  }
 
-{{sections}}
+  // Shared snippets under partials/, referenced by path without extension: {{> testing/commands}}.
+  // Later layers replace partials of the same name; packs can only add new ones.
+  private async loadPartials(): Promise<Record<string, string>> {
+    const partials: Record<string, string> = {};
 
-Generated on {{date}}`;
-      
-      default:
-        return '{{sections}}';
+    for (const source of [...this.layers, ...this.packs]) {
+      for (const file of await this.listFiles(source, 'partials')) {
+        const name = file.replace(/^partials\//, '').replace(/\.md$/, '');
+        if (!this.packs.includes(source) || !(name in partials)) {
+          partials[name] = await fs.readFile(path.join(source.path, file), 'utf-8');
+        }
+      }
+    }
+    return partials;
+  }
+
+  async loadTemplate(format: string): Promise<string> {
+    const template = await this.findTemplate(format);
+    return template ? template.content : DEFAULT_TEMPLATE;
+  }
+
+  /**
+   * Render a format's layout template. Templates see the full config plus
+   * `projectName`, `generated` (the "Generated on ..." line) and the variables
+   * passed in, such as the rendered `sections`. `date` is empty unless passed
+   * in, as it is left out of deterministic output. `formats` lists the format
+   * ids being generated, with 'all' resolved, and is empty unless passed in.
+   */
+  async renderTemplate(format: string, config: ProjectConfig, variables: Record<string, any>): Promise<string> {
+    const template = await this.findTemplate(format);
+    const renderer = await this.getRenderer();
+    const context = {
+      ...createConfigContext(config),
+      projectName: config.output.projectName,
+      date: '',
+      formats: [],
+      generated: generatedOnFooter(variables.date),
+      ...variables,
+    };
+
+    return renderer.render(template ? template.content : DEFAULT_TEMPLATE, context, template?.file);
+  }
+
+  // Templates in .ai-rules/templates/ take precedence over ~/.config/ai-rules/templates/,
+  // then pack templates, then the built-in formats/ templates
+  private async findTemplate(format: string): Promise<{ file: string; content: string } | null> {
+    const fileName = `${format}-template.md`;
+    const [builtin, ...overrides] = this.layers;
+    const sources = [...overrides.reverse(), ...this.packs, builtin];
+
+    for (const source of sources) {
+      const templatePath = `${source.templatesDir}/${fileName}`;
+      try {
+        return {
+          file: describeFile(source, templatePath),
+          content: await fs.readFile(path.join(source.path, templatePath), 'utf-8'),
+        };
+      } catch {
+        // Try the next location
+      }
     }
+    return null;
   }
 
   clearCache(): void {
     this.contentCache.clear();
+    this.renderer = null;
+    this.rules = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ConditionSchema } from '../../../core/expressions/Condition.js';
+import { RULE_SEVERITIES } from '../types/ContentTypes.js';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Metadata at the top of every content file. It replaces hand-written
+ * mapping entries: the loader discovers each file under `categories/` and
+ * builds its rule from these fields.
+ */
+export const ContentFrontmatterSchema = z.object({
+  // Defaults to the path below categories/ with dashes, e.g. tools-testing
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must contain only lowercase letters, digits and dashes').optional(),
+  title: z.string().optional(),
+  section: z.string(),
+  // Lower values are rendered first
+  priority: z.number().default(10),
+  // Condition over the project config, either an expression such as
+  // `philosophy.tdd && "vitest" in tools.testing` or its object form;
+  // files without one are always included
+  when: ConditionSchema.optional(),
+  // Format ids the content is rendered for; all formats when omitted
+  formats: z.array(z.string()).optional(),
+  // Ids of content this content contradicts; reported when both are included
+  conflictsWith: z.array(z.string()).optional(),
+  // Severity of the file's rules that do not state one; `should` when omitted
+  severity: z.enum(RULE_SEVERITIES).optional(),
+  description: z.string().optional(),
+  globs: z.array(z.string()).optional(),
+  apply: z.enum(['always', 'auto', 'agent']).optional(),
+}).strict();
+
+export type ContentFrontmatter = z.infer<typeof ContentFrontmatterSchema>;
+
+/**
+ * Split a markdown file into its YAML frontmatter and body. Returns null when
+ * the file does not start with a `---` block.
+ */
+export const parseFrontmatter = (source: string): { data: unknown; body: string } | null => {
+  const match = FRONTMATTER_PATTERN.exec(source);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    data: parseYaml(match[1]) ?? {},
+    body: source.slice(match[0].length),
+  };
+};
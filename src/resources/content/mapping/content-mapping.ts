@@ -1,76 +1,108 @@
-import { ProjectConfig } from '../../../core/types.js';
+import { ProjectConfig, ProjectConfigSchema } from '../../../core/types.js';
+import { createObjectScope } from '../../../core/expressions/Expression.js';
+import { Condition, evaluateCondition, validateCondition } from '../../../core/expressions/Condition.js';
+import { describeSchema } from '../../../core/expressions/TypeChecker.js';
+import { createConfigContext } from '../../../core/template-engine/templateContext.js';
+import { SECTION_ORDER } from '../../../core/formats/formatHelpers.js';
+import { RuleApplication, RuleSeverity } from '../types/ContentTypes.js';
+import { ContentFrontmatter } from '../loaders/frontmatter.js';
+import { BUILTIN_ORIGIN } from '../../packs/types/PackTypes.js';
 
+/**
+ * A content file and the metadata from its frontmatter. Rules are built by
+ * ContentLoader from every file it discovers under `categories/`.
+ */
 export interface ContentRule {
-  condition: (config: ProjectConfig) => boolean;
+  id: string;
+  title?: string;
+  // Relative to the content directory, e.g. categories/tools/testing.md
   contentPath: string;
+  // 'built-in' or the pack the file comes from, e.g. acme-rules@1.2.0
+  origin: string;
   section: string;
   priority: number;
+  // Condition over the project config that must hold for the content to be included
+  when?: Condition;
+  // Format ids the content is rendered for; all formats when omitted
+  formats?: string[];
+  // Content ids whose guidance contradicts this content
+  conflictsWith?: string[];
+  // Severity of rules in the file that do not state one
+  severity?: RuleSeverity;
+  // Short summary used by formats that load rules on demand
+  description?: string;
+  // File patterns the rule applies to; rules with globs default to 'auto'
+  globs?: string[];
+  apply?: RuleApplication;
 }
 
-export const contentMapping: Record<string, ContentRule> = {
-  // Philosophy
-  tdd: {
-    condition: (config) => config.philosophy.tdd,
-    contentPath: 'categories/philosophy/tdd.md',
-    section: 'philosophy',
-    priority: 1
-  },
-  
-  strictArchitecture: {
-    condition: (config) => config.philosophy.strictArchitecture,
-    contentPath: 'categories/philosophy/strict-architecture.md',
-    section: 'philosophy',
-    priority: 2
-  },
-  
-  functionalProgramming: {
-    condition: (config) => config.philosophy.functionalProgramming,
-    contentPath: 'categories/philosophy/functional-programming.md',
-    section: 'philosophy',
-    priority: 3
-  },
+export const getContentIdFromPath = (contentPath: string): string => {
+  return contentPath
+    .replace(/^categories\//, '')
+    .replace(/\.md$/, '')
+    .replace(/\//g, '-');
+};
+
+const CONFIG_TYPE = describeSchema(ProjectConfigSchema);
 
-  // Project Type
-  typescript: {
-    condition: (config) => config.projectType === 'typescript',
-    contentPath: 'categories/project/typescript.md',
-    section: 'language',
-    priority: 1
-  },
+/**
+ * Build a rule from a file's frontmatter. Throws when the `when` condition
+ * does not parse or reads paths and values ProjectConfig does not have, so
+ * broken conditions are reported at discovery time.
+ */
+export const createContentRule = (
+  contentPath: string,
+  frontmatter: ContentFrontmatter,
+  origin: string = BUILTIN_ORIGIN
+): ContentRule => {
+  if (frontmatter.when !== undefined) {
+    const problems = validateCondition(frontmatter.when, CONFIG_TYPE);
+    if (problems.length > 0) {
+      throw new Error(`Invalid "when" condition: ${problems.join('; ')}`);
+    }
+  }
+
+  return {
+    id: frontmatter.id || getContentIdFromPath(contentPath),
+    title: frontmatter.title,
+    contentPath,
+    origin,
+    section: frontmatter.section,
+    priority: frontmatter.priority,
+    when: frontmatter.when,
+    formats: frontmatter.formats,
+    conflictsWith: frontmatter.conflictsWith,
+    severity: frontmatter.severity,
+    description: frontmatter.description,
+    globs: frontmatter.globs,
+    apply: frontmatter.apply,
+  };
+};
 
-  // Tools
-  eslint: {
-    condition: (config) => config.tools.eslint,
-    contentPath: 'categories/tools/eslint.md',
-    section: 'tools',
-    priority: 1
-  },
-  
-  testing: {
-    condition: (config) => config.tools.testing.length > 0,
-    contentPath: 'categories/tools/testing.md',
-    section: 'tools',
-    priority: 2
-  },
+export const isRuleApplicable = (rule: ContentRule, config: ProjectConfig): boolean => {
+  if (rule.when === undefined) {
+    return true;
+  }
 
-  // Quality
-  accessibility: {
-    condition: (config) => config.quality.accessibility,
-    contentPath: 'categories/quality/accessibility.md',
-    section: 'quality',
-    priority: 1
-  },
-  
-  security: {
-    condition: (config) => config.quality.security,
-    contentPath: 'categories/quality/security.md',
-    section: 'quality',
-    priority: 2
+  try {
+    return evaluateCondition(rule.when, createObjectScope(createConfigContext(config)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid "when" condition in ${rule.contentPath}: ${message}`);
   }
 };
 
-export const getApplicableContent = (config: ProjectConfig): ContentRule[] => {
-  return Object.values(contentMapping)
-    .filter(rule => rule.condition(config))
-    .sort((a, b) => a.priority - b.priority);
-};
\ No newline at end of file
+// Sections outside SECTION_ORDER sort after the known ones
+const sectionRank = (section: string): number => {
+  const index = SECTION_ORDER.indexOf(section);
+  return index === -1 ? SECTION_ORDER.length : index;
+};
+
+// Ids are compared by code point rather than localeCompare, so the order is the same under every locale
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export const getApplicableContent = (rules: ContentRule[], config: ProjectConfig): ContentRule[] => {
+  return rules
+    .filter(rule => isRuleApplicable(rule, config))
+    .sort((a, b) => a.priority - b.priority || sectionRank(a.section) - sectionRank(b.section) || compareIds(a.id, b.id));
+};
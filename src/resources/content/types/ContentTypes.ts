@@ -1,11 +1,49 @@
+/**
+ * How an assistant should attach a rule: always, automatically for files
+ * matching its globs, or on request when the agent finds the description relevant.
+ */
+export type RuleApplication = 'always' | 'auto' | 'agent';
+
+// How strictly a rule must be followed, in the sense of RFC 2119
+export const RULE_SEVERITIES = ['must', 'should', 'may'] as const;
+
+export type RuleSeverity = typeof RULE_SEVERITIES[number];
+
+// A rule (top-level list item) of a section, as formats render it
+export interface SectionRule {
+  // The content id and the rule's own id, e.g. tools-testing.coverage
+  id: string;
+  severity: RuleSeverity;
+  // The rule on one line, without its severity
+  text: string;
+}
+
 export interface ContentSection {
   id: string;
+  title?: string;
   section: string;
   content: string;
   priority: number;
+  description?: string;
+  globs?: string[];
+  apply: RuleApplication;
+  // Format ids the section is rendered for; all formats when omitted
+  formats?: string[];
+  // Content ids whose guidance contradicts this content
+  conflictsWith?: string[];
+  // Severity of rules that do not state one
+  severity?: RuleSeverity;
+  // Set just before formats render, in the order the rules appear in `content`
+  rules?: SectionRule[];
   variables?: Record<string, any>;
 }
 
+// A content file that could not be used, reported instead of silently dropped
+export interface ContentIssue {
+  file: string;
+  message: string;
+}
+
 export interface ContentTemplate {
   format: string;
   templatePath: string;
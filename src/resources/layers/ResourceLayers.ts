@@ -0,0 +1,55 @@
+import os from 'os';
+import path from 'path';
+import { BUILTIN_ORIGIN } from '../packs/types/PackTypes.js';
+
+// Resources are looked up in these layers; later layers win
+export const USER_ORIGIN = 'user';
+export const PROJECT_ORIGIN = 'project';
+
+// Project-local resources, relative to the project directory
+export const PROJECT_RESOURCES_DIR = '.ai-rules';
+
+/**
+ * A directory with the same layout as the built-in resources. A file at the
+ * same relative path as one in a lower layer replaces it; other files are added.
+ */
+export interface ResourceLayer {
+  origin: string;
+  path: string;
+  // Prefix used when reporting files of this layer, e.g. `.ai-rules/`
+  label: string;
+}
+
+// $XDG_CONFIG_HOME/ai-rules, or ~/.config/ai-rules
+export const getUserResourcesDir = (): string => {
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'ai-rules');
+};
+
+const homeRelative = (dir: string): string => {
+  const relative = path.relative(os.homedir(), dir);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? `~/${relative.split(path.sep).join('/')}` : dir;
+};
+
+/**
+ * The built-in, user-global and project-local layers for one kind of
+ * resource, lowest precedence first. `subdir` is where that kind lives in the
+ * user and project directories, e.g. `questions`; content uses their root.
+ */
+export const getResourceLayers = (
+  builtinPath: string,
+  projectPath: string,
+  userPath: string = getUserResourcesDir(),
+  subdir: string = ''
+): ResourceLayer[] => {
+  const layer = (origin: string, root: string, rootLabel: string): ResourceLayer => ({
+    origin,
+    path: path.join(root, subdir),
+    label: `${path.posix.join(rootLabel, subdir)}/`,
+  });
+
+  return [
+    { origin: BUILTIN_ORIGIN, path: builtinPath, label: '' },
+    layer(USER_ORIGIN, userPath, homeRelative(userPath)),
+    layer(PROJECT_ORIGIN, path.join(projectPath, PROJECT_RESOURCES_DIR), PROJECT_RESOURCES_DIR),
+  ];
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PackLoader, satisfiesVersion } from '../loaders/PackLoader.js';
+import { PACK_MANIFEST } from '../types/PackTypes.js';
+import { ContentLoader } from '../../content/loaders/ContentLoader.js';
+import { QuestionLoader } from '../../questions/loaders/QuestionLoader.js';
+import { TemplateEngine } from '../../../core/template-engine/TemplateEngine.js';
+import { ProjectConfigSchema } from '../../../core/types.js';
+import { loadProjectConfig } from '../../../core/config/ConfigLoader.js';
+
+describe('satisfiesVersion', () => {
+  it('should match exact versions, caret, tilde and wildcard ranges', () => {
+    expect(satisfiesVersion('1.2.3', '1.2.3')).toBe(true);
+    expect(satisfiesVersion('1.2.4', '1.2.3')).toBe(false);
+    expect(satisfiesVersion('1.9.0', '^1.2.3')).toBe(true);
+    expect(satisfiesVersion('2.0.0', '^1.2.3')).toBe(false);
+    expect(satisfiesVersion('0.3.0', '^0.2.0')).toBe(false);
+    expect(satisfiesVersion('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfiesVersion('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfiesVersion('1.4.0', '1.x')).toBe(true);
+    expect(satisfiesVersion('3.0.0', '*')).toBe(true);
+  });
+});
+
+describe('PackLoader', () => {
+  let projectPath: string;
+  const packPath = () => path.join(projectPath, 'packs/acme');
+
+  const writeFile = async (relativePath: string, content: string) => {
+    const fullPath = path.join(packPath(), relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-packs-'));
+    await writeFile(PACK_MANIFEST, JSON.stringify({ name: 'acme-rules', version: '1.2.0', formats: ['formats/acme.mjs'] }));
+    await writeFile('content/categories/api.md', [
+      '---',
+      'id: acme-api',
+      'title: API Conventions',
+      'section: architecture',
+      'when: answers.apiStyle == "rest"',
+      '---',
+      '### API Conventions',
+      '- Version every public endpoint',
+    ].join('\n'));
+    await writeFile('questions/01-api.json', JSON.stringify({
+      category: 'tools',
+      title: 'Tools',
+      description: 'Tooling',
+      order: 3,
+      questions: [{ id: 'apiStyle', text: 'Which API style do you use?', type: 'single', options: ['rest', 'graphql'], required: true }],
+    }));
+    await writeFile('formats/acme.mjs', [
+      'export default {',
+      '  id: "acme",',
+      '  name: "Acme Portal",',
+      '  render: ctx => [{ path: "ACME.md", content: ctx.sections.map(section => section.content).join("\\n") }],',
+      '};',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should resolve pack directories relative to the project', async () => {
+    const pack = await new PackLoader(projectPath).loadPack({ source: './packs/acme', version: '^1.0.0' });
+
+    expect(pack).toMatchObject({
+      name: 'acme-rules',
+      version: '1.2.0',
+      source: './packs/acme',
+      contentPath: path.join(packPath(), 'content'),
+      questionsPath: path.join(packPath(), 'questions'),
+      formats: [path.join(packPath(), 'formats/acme.mjs')],
+    });
+  });
+
+  it('should reject packs outside the required version range', async () => {
+    await expect(new PackLoader(projectPath).loadPack({ source: './packs/acme', version: '^2.0.0' })).rejects.toThrow(
+      'Pack "acme-rules" is version 1.2.0, but the project requires ^2.0.0'
+    );
+  });
+
+  it('should report invalid manifests with the offending field', async () => {
+    await writeFile(PACK_MANIFEST, JSON.stringify({ name: 'acme-rules', version: 'latest' }));
+
+    await expect(new PackLoader(projectPath).loadPack('./packs/acme')).rejects.toThrow(
+      `Invalid ${PACK_MANIFEST} for pack "./packs/acme": version: must be a semantic version such as 1.2.0`
+    );
+  });
+
+  it('should merge pack content and questions with the built-ins', async () => {
+    const pack = await new PackLoader(projectPath).loadPack('./packs/acme');
+    const contentLoader = new ContentLoader(undefined, projectPath);
+    const questionLoader = new QuestionLoader();
+    contentLoader.addPack(pack);
+    questionLoader.addPack(pack);
+
+    const rules = await contentLoader.getContentRules();
+    expect(rules.find(rule => rule.id === 'acme-api')?.origin).toBe('acme-rules@1.2.0');
+    expect(rules.find(rule => rule.id === 'tools-testing')?.origin).toBe('built-in');
+    expect(contentLoader.getIssues()).toEqual([]);
+
+    const tools = await questionLoader.getQuestionsByCategory('tools');
+    expect(tools[tools.length - 1]).toMatchObject({ id: 'apiStyle', origin: 'acme-rules@1.2.0' });
+    expect((await questionLoader.getQuestionById('outputFormats'))?.options).toEqual(expect.arrayContaining(['claude', 'acme', 'all']));
+  });
+
+  it('should report pack content that reuses a built-in id', async () => {
+    await writeFile('content/categories/testing.md', '---\nid: tools-testing\nsection: testing\n---\nOverride');
+    const contentLoader = new ContentLoader(undefined, projectPath);
+    contentLoader.addPack(await new PackLoader(projectPath).loadPack('./packs/acme'));
+
+    await contentLoader.getContentRules();
+    expect(contentLoader.getIssues()).toEqual([{
+      file: 'acme-rules@1.2.0:categories/testing.md',
+      message: 'Duplicate id "tools-testing" (already used by categories/tools/testing.md)',
+    }]);
+  });
+
+  it('should generate pack content and formats declared in the config', async () => {
+    const config = ProjectConfigSchema.parse({
+      projectType: 'typescript',
+      output: { formats: ['acme'] },
+      packs: [packPath()],
+      answers: { apiStyle: 'rest' },
+    });
+
+    const output = await new TemplateEngine().generateInstructions(config);
+
+    expect(output.metadata.conceptsUsed).toContain('acme-api');
+    expect(output.formats.acme[0].content).toContain('- [SHOULD] Version every public endpoint');
+  });
+
+  it('should resolve relative packs from the directory of the config file', async () => {
+    await fs.writeFile(path.join(projectPath, 'ai-rules.config.json'), JSON.stringify({
+      projectType: 'typescript',
+      output: { formats: ['acme'] },
+      packs: ['./packs/acme'],
+      answers: { apiStyle: 'rest' },
+    }));
+    const loaded = (await loadProjectConfig({}, projectPath))!;
+
+    const output = await new TemplateEngine(undefined, loaded.baseDir).generateInstructions(loaded.config);
+
+    expect(loaded.baseDir).toBe(projectPath);
+    expect(output.formats.acme[0].content).toContain('Version every public endpoint');
+  });
+
+  it('should include pack formats in all formats', async () => {
+    const config = ProjectConfigSchema.parse({
+      projectType: 'typescript',
+      output: { formats: ['all'] },
+      packs: [packPath()],
+      answers: { apiStyle: 'graphql' },
+    });
+
+    const output = await new TemplateEngine().generateInstructions(config);
+
+    expect(Object.keys(output.formats)).toContain('acme');
+    expect(Object.keys(output.formats)).toContain('claude');
+  });
+});
@@ -0,0 +1,15 @@
+export * from './types/PackTypes.js';
+export * from './loaders/PackLoader.js';
+
+import { PackLoader } from './loaders/PackLoader.js';
+import { PackReference } from './types/PackTypes.js';
+
+// Export convenience functions
+export const loadPacks = async (references: PackReference[], baseDir?: string) => {
+  return new PackLoader(baseDir).loadPacks(references);
+};
+
+// For testing or custom paths
+export const createPackLoader = (baseDir?: string) => {
+  return new PackLoader(baseDir);
+};
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { LoadedPack, PACK_MANIFEST, PackManifestSchema, PackReference } from '../types/PackTypes.js';
+
+const parseVersion = (version: string): number[] => {
+  return version.split(/[-+]/)[0].split('.').map(part => Number(part));
+};
+
+/**
+ * Whether `version` satisfies `range`. Supports exact versions, `^` (same
+ * major, or same minor below 1.0), `~` (same minor), `x` wildcards and `*`.
+ */
+export const satisfiesVersion = (version: string, range: string): boolean => {
+  const trimmed = range.trim();
+  if (trimmed === '' || trimmed === '*') {
+    return true;
+  }
+
+  const [major, minor, patch] = parseVersion(version);
+  const operator = /^[\^~]/.test(trimmed) ? trimmed[0] : '';
+  const parts = trimmed.slice(operator.length).split('.');
+  const wanted = parts.map(part => (/^(x|\*)$/i.test(part) ? null : Number(part)));
+  const [wantedMajor, wantedMinor = null, wantedPatch = null] = wanted;
+
+  if (wanted.some(part => part !== null && Number.isNaN(part))) {
+    throw new Error(`Invalid version range "${range}"`);
+  }
+
+  const compare = (a: number[], b: number[]) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+  const atLeast = compare([major, minor, patch], [wantedMajor ?? 0, wantedMinor ?? 0, wantedPatch ?? 0]) >= 0;
+
+  if (operator === '^') {
+    if (wantedMajor === 0 && wantedMinor !== null) {
+      return atLeast && major === 0 && minor === wantedMinor;
+    }
+    return atLeast && major === wantedMajor;
+  }
+  if (operator === '~') {
+    return atLeast && major === wantedMajor && (wantedMinor === null || minor === wantedMinor);
+  }
+
+  return (wantedMajor === null || major === wantedMajor) &&
+    (wantedMinor === null || minor === wantedMinor) &&
+    (wantedPatch === null || patch === wantedPatch);
+};
+
+export class PackLoader {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.cwd();
+  }
+
+  /**
+   * Load a pack from a directory (relative to the project) or an installed
+   * package, read its manifest and check it against the declared version range.
+   */
+  async loadPack(reference: PackReference): Promise<LoadedPack> {
+    const { source, version: range } = typeof reference === 'string' ? { source: reference, version: undefined } : reference;
+    const rootPath = this.resolvePackRoot(source);
+
+    let rawManifest: unknown;
+    try {
+      rawManifest = JSON.parse(await fs.readFile(path.join(rootPath, PACK_MANIFEST), 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read ${PACK_MANIFEST} for pack "${source}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const result = PackManifestSchema.safeParse(rawManifest);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`Invalid ${PACK_MANIFEST} for pack "${source}": ${issues.join('; ')}`);
+    }
+
+    const manifest = result.data;
+    if (range && !satisfiesVersion(manifest.version, range)) {
+      throw new Error(`Pack "${manifest.name}" is version ${manifest.version}, but the project requires ${range}`);
+    }
+
+    return {
+      name: manifest.name,
+      version: manifest.version,
+      description: manifest.description,
+      source,
+      rootPath,
+      questionsPath: path.resolve(rootPath, manifest.questions),
+      contentPath: path.resolve(rootPath, manifest.content),
+      formats: manifest.formats.map(format => path.resolve(rootPath, format)),
+    };
+  }
+
+  async loadPacks(references: PackReference[]): Promise<LoadedPack[]> {
+    const packs: LoadedPack[] = [];
+
+    for (const reference of references) {
+      const pack = await this.loadPack(reference);
+      const duplicate = packs.find(loaded => loaded.name === pack.name);
+      if (duplicate) {
+        throw new Error(`Pack "${pack.name}" is declared twice (${duplicate.source} and ${pack.source})`);
+      }
+      packs.push(pack);
+    }
+
+    return packs;
+  }
+
+  private resolvePackRoot(source: string): string {
+    if (path.isAbsolute(source) || source.startsWith('.')) {
+      return path.resolve(this.baseDir, source);
+    }
+
+    // Installed packages are found through their manifest or package.json
+    const require = createRequire(path.join(this.baseDir, 'package.json'));
+    for (const file of [PACK_MANIFEST, 'package.json']) {
+      try {
+        return path.dirname(require.resolve(`${source}/${file}`));
+      } catch {
+        // Try the next file; packages may not export both
+      }
+    }
+    throw new Error(`Cannot find pack "${source}" from ${this.baseDir}`);
+  }
+}
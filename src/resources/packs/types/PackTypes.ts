@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// Origin reported for questions, content and formats that ship with the CLI
+export const BUILTIN_ORIGIN = 'built-in';
+
+// Manifest file at the root of every pack directory or package
+export const PACK_MANIFEST = 'ai-rules-pack.json';
+
+export const PackManifestSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().regex(/^\d+\.\d+\.\d+([-+].*)?$/, 'must be a semantic version such as 1.2.0'),
+  description: z.string().optional(),
+  // Directory of question category JSON files, relative to the pack root
+  questions: z.string().default('questions'),
+  // Content directory (categories/, partials/, formats/), relative to the pack root
+  content: z.string().default('content'),
+  // Format plugin modules, relative to the pack root
+  formats: z.array(z.string()).default([]),
+});
+
+export type PackManifest = z.infer<typeof PackManifestSchema>;
+
+/**
+ * A pack as declared in `packs` of the project config: a directory (relative
+ * to the project) or package name, optionally pinned to a version range such
+ * as `1.2.0`, `^1.2.0` or `~1.2.0`.
+ */
+export const PackReferenceSchema = z.union([
+  z.string(),
+  z.object({
+    source: z.string(),
+    version: z.string().optional(),
+  }),
+]);
+
+export type PackReference = z.infer<typeof PackReferenceSchema>;
+
+export interface LoadedPack {
+  name: string;
+  version: string;
+  description?: string;
+  // The specifier the pack was declared with
+  source: string;
+  rootPath: string;
+  questionsPath: string;
+  contentPath: string;
+  // Absolute paths of format plugin modules
+  formats: string[];
+}
+
+// Label shown wherever a question, concept or format from a pack is listed
+export const getPackOrigin = (pack: LoadedPack): string => `${pack.name}@${pack.version}`;
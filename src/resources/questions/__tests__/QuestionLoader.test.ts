@@ -1,12 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { QuestionLoader } from '../loaders/QuestionLoader.js';
+import { CategoryManager } from '../loaders/CategoryManager.js';
+import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
 
 describe('QuestionLoader', () => {
   let questionLoader: QuestionLoader;
 
   beforeEach(() => {
-    const categoriesPath = path.join(process.cwd(), 'src/questions/categories');
+    const categoriesPath = path.join(process.cwd(), 'src/resources/questions/categories');
     questionLoader = new QuestionLoader(categoriesPath);
     questionLoader.clearCache(); // Clear cache before each test
   });
@@ -59,4 +62,83 @@ describe('QuestionLoader', () => {
     const question = await questionLoader.getQuestionById('nonExistentQuestion');
     expect(question).toBeUndefined();
   });
-});
\ No newline at end of file
+
+  it('should let project question files replace built-in files of the same name', async () => {
+    const projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-project-'));
+    const questionsDir = path.join(projectPath, '.ai-rules/questions');
+    await fs.mkdir(questionsDir, { recursive: true });
+    await fs.writeFile(path.join(questionsDir, '05-infrastructure.json'), JSON.stringify({
+      category: 'infrastructure',
+      title: 'Infrastructure',
+      description: 'Team practices',
+      order: 5,
+      questions: [{ id: 'pairProgramming', text: 'Do you pair program?', type: 'boolean', required: false }],
+    }));
+
+    try {
+      const loader = new QuestionLoader(undefined, projectPath, path.join(projectPath, 'no-user-config'));
+      const infrastructure = await loader.getQuestionsByCategory('infrastructure');
+
+      expect(infrastructure).toEqual([expect.objectContaining({ id: 'pairProgramming', origin: 'project' })]);
+      expect((await loader.getQuestionById('projectType'))?.origin).toBe('built-in');
+    } finally {
+      await fs.rm(projectPath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CategoryManager', () => {
+  const categoriesPath = path.join(process.cwd(), 'src/resources/questions/categories');
+
+  it('should skip questions whose condition does not hold', async () => {
+    const manager = new CategoryManager(new QuestionLoader(categoriesPath));
+
+    const withFramework = await manager.getNextQuestion('uiFramework', { uiFramework: 'react' });
+    const withoutFramework = await manager.getNextQuestion('uiFramework', { uiFramework: 'none' });
+
+    expect(withFramework?.id).toBe('stateManagement');
+    expect(withoutFramework?.id).toBe('i18n');
+  });
+
+  it('should hide JavaScript tooling questions for other languages', async () => {
+    const manager = new CategoryManager(new QuestionLoader(categoriesPath));
+
+    const next = await manager.getNextQuestion('functionalProgramming', { projectType: 'go', followTDD: true });
+    const afterLinter = await manager.getNextQuestion('golangciLint', { projectType: 'go', followTDD: true });
+
+    expect(next?.id).toBe('golangciLint');
+    expect(afterLinter?.id).toBe('i18n');
+  });
+
+  it('should only ask for the aider config when the aider format is selected', async () => {
+    const manager = new CategoryManager(new QuestionLoader(categoriesPath));
+
+    const withAider = await manager.getNextQuestion('rooCustomModes', { outputFormats: ['aider'] });
+    const withoutAider = await manager.getNextQuestion('rooCustomModes', { outputFormats: ['claude'] });
+
+    expect(withAider?.id).toBe('aiderConfig');
+    expect(withoutAider?.id).toBe('projectName');
+  });
+
+  it('should reject conditions that reference unknown questions', async () => {
+    const categoriesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-rules-questions-'));
+    await fs.writeFile(path.join(categoriesDir, '01-test.json'), JSON.stringify({
+      category: 'test',
+      title: 'Test',
+      description: 'Test questions',
+      order: 1,
+      questions: [
+        { id: 'framework', text: 'Framework?', type: 'single', options: ['react', 'vue'], required: true },
+        { id: 'router', text: 'Router?', type: 'boolean', when: 'framwork == "react"', required: false },
+      ],
+    }));
+
+    try {
+      await expect(new QuestionLoader(categoriesDir).loadQuestions()).rejects.toThrow(
+        'Invalid "when" condition for question "router": Unknown path "framwork"'
+      );
+    } finally {
+      await fs.rm(categoriesDir, { recursive: true, force: true });
+    }
+  });
+});
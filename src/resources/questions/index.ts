@@ -5,6 +5,7 @@ export * from './loaders/CategoryManager.js';
 // Create default instances for easy use
 import { QuestionLoader } from './loaders/QuestionLoader.js';
 import { CategoryManager } from './loaders/CategoryManager.js';
+import { LoadedPack } from '../packs/types/PackTypes.js';
 
 const defaultQuestionLoader = new QuestionLoader();
 const defaultCategoryManager = new CategoryManager(defaultQuestionLoader);
@@ -33,6 +34,10 @@ export const getAllCategories = async () => {
   return defaultQuestionLoader.getAllCategories();
 };
 
+export const addQuestionPack = (pack: LoadedPack) => {
+  defaultQuestionLoader.addPack(pack);
+};
+
 export const validateAnswers = async (answers: Record<string, any>) => {
   return defaultCategoryManager.validateAnswers(answers);
 };
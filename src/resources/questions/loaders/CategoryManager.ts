@@ -1,5 +1,7 @@
 import { Question, QuestionFlow } from '../types/QuestionTypes.js';
 import { QuestionLoader } from './QuestionLoader.js';
+import { createObjectScope } from '../../../core/expressions/Expression.js';
+import { evaluateCondition } from '../../../core/expressions/Condition.js';
 
 export class CategoryManager {
   private questionLoader: QuestionLoader;
@@ -25,14 +27,10 @@ export class CategoryManager {
 
     const nextQuestion = allQuestions[currentIndex + 1];
     
-    // Check if next question has dependencies
-    if (nextQuestion.dependencies && nextQuestion.dependencies.length > 0) {
-      const dependenciesMet = this.checkDependencies(nextQuestion.dependencies, answers);
-      
-      if (!dependenciesMet) {
-        // Skip this question and try the next one
-        return this.getNextQuestion(nextQuestion.id, answers);
-      }
+    // Check if next question has dependencies or a condition
+    if (!this.shouldAsk(nextQuestion, answers, allQuestions)) {
+      // Skip this question and try the next one
+      return this.getNextQuestion(nextQuestion.id, answers);
     }
 
     return nextQuestion;
@@ -51,14 +49,10 @@ export class CategoryManager {
 
     const previousQuestion = allQuestions[currentIndex - 1];
     
-    // Check if previous question should be shown (dependencies)
-    if (previousQuestion.dependencies && previousQuestion.dependencies.length > 0) {
-      const dependenciesMet = this.checkDependencies(previousQuestion.dependencies, answers);
-      
-      if (!dependenciesMet) {
-        // Skip this question and try the previous one
-        return this.getPreviousQuestion(previousQuestion.id, answers);
-      }
+    // Check if previous question should be shown (dependencies and condition)
+    if (!this.shouldAsk(previousQuestion, answers, allQuestions)) {
+      // Skip this question and try the previous one
+      return this.getPreviousQuestion(previousQuestion.id, answers);
     }
 
     return previousQuestion;
@@ -85,6 +79,22 @@ export class CategoryManager {
     };
   }
 
+  private shouldAsk(question: Question, answers: Record<string, any>, allQuestions: Question[]): boolean {
+    if (question.dependencies && question.dependencies.length > 0 && !this.checkDependencies(question.dependencies, answers)) {
+      return false;
+    }
+    if (question.when === undefined) {
+      return true;
+    }
+
+    // Unanswered questions read as undefined rather than unknown variables
+    const scope = createObjectScope({
+      ...Object.fromEntries(allQuestions.map(q => [q.id, undefined])),
+      ...answers,
+    });
+    return evaluateCondition(question.when, scope);
+  }
+
   private checkDependencies(dependencies: string[], answers: Record<string, any>): boolean {
     return dependencies.every(dep => {
       const answer = answers[dep];
@@ -117,12 +127,9 @@ export class CategoryManager {
     const errors: string[] = [];
 
     for (const question of allQuestions) {
-      // Skip validation for questions whose dependencies aren't met
-      if (question.dependencies && question.dependencies.length > 0) {
-        const dependenciesMet = this.checkDependencies(question.dependencies, answers);
-        if (!dependenciesMet) {
-          continue;
-        }
+      // Skip validation for questions that would not be asked
+      if (!this.shouldAsk(question, answers, allQuestions)) {
+        continue;
       }
 
       const answer = answers[question.id];
@@ -1,13 +1,62 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 import { QuestionCategory, Question, LoadedQuestions } from '../types/QuestionTypes.js';
+import { createFormatRegistry } from '../../../core/formats/index.js';
+import { validateCondition } from '../../../core/expressions/Condition.js';
+import { ValueType } from '../../../core/expressions/TypeChecker.js';
+import { LoadedPack, getPackOrigin } from '../../packs/types/PackTypes.js';
+import { ResourceLayer, getResourceLayers } from '../../layers/ResourceLayers.js';
 
+// Built-in categories ship next to this module, in src/resources/questions or dist/resources/questions
+const BUILTIN_CATEGORIES_PATH = fileURLToPath(new URL('../categories', import.meta.url));
+
+type OptionSources = Record<NonNullable<Question['optionsFrom']>, string[]>;
+
+const getAnswerType = (question: Question): ValueType => {
+  switch (question.type) {
+    case 'single':
+      return { kind: 'string', values: question.options };
+    case 'multiple':
+      return { kind: 'array', element: { kind: 'string', values: question.options } };
+    case 'boolean':
+      return { kind: 'boolean' };
+    case 'text':
+      return { kind: 'string' };
+  }
+};
+
+// The values question conditions are evaluated against: every answer keyed by question id
+export const getAnswersType = (questions: Question[]): ValueType => ({
+  kind: 'object',
+  fields: Object.fromEntries(questions.map(question => [question.id, getAnswerType(question)])),
+});
+
+/**
+ * Loads question categories from the built-in categories, the user's
+ * ~/.config/ai-rules/questions/ and the project's .ai-rules/questions/. A
+ * category file with the same name in a later layer replaces the earlier one.
+ */
 export class QuestionLoader {
-  private categoriesPath: string;
+  private layers: ResourceLayer[];
+  private packs: LoadedPack[] = [];
   private loadedQuestions: LoadedQuestions | null = null;
 
-  constructor(categoriesPath?: string) {
-    this.categoriesPath = categoriesPath || path.join(process.cwd(), 'src/resources/questions/categories');
+  constructor(categoriesPath?: string, projectPath?: string, userPath?: string) {
+    this.layers = getResourceLayers(categoriesPath || BUILTIN_CATEGORIES_PATH, projectPath || process.cwd(), userPath, 'questions');
+  }
+
+  /**
+   * Merge a pack's question categories with the built-in ones. Questions in a
+   * category that already exists are appended to it; adding the same pack
+   * again has no effect.
+   */
+  addPack(pack: LoadedPack): void {
+    if (this.packs.some(loaded => getPackOrigin(loaded) === getPackOrigin(pack))) {
+      return;
+    }
+    this.packs.push(pack);
+    this.clearCache();
   }
 
   async loadQuestions(): Promise<LoadedQuestions> {
@@ -18,6 +67,7 @@ export class QuestionLoader {
     const categories = await this.loadCategories();
     const allQuestions = this.flattenQuestions(categories);
     const questionMap = this.createQuestionMap(allQuestions);
+    this.validateConditions(allQuestions);
 
     this.loadedQuestions = {
       categories,
@@ -30,16 +80,31 @@ export class QuestionLoader {
 
   private async loadCategories(): Promise<QuestionCategory[]> {
     try {
-      const files = await fs.readdir(this.categoriesPath);
-      const jsonFiles = files.filter(file => file.endsWith('.json')).sort();
-      
+      const layered = new Map<string, ResourceLayer>();
+      for (const [index, layer] of this.layers.entries()) {
+        // Only the built-in directory has to exist
+        for (const file of await this.listCategoryFiles(layer.path, index === 0)) {
+          layered.set(file, layer);
+        }
+      }
+
+      const optionSources = await this.loadOptionSources();
       const categories: QuestionCategory[] = [];
-      
-      for (const file of jsonFiles) {
-        const filePath = path.join(this.categoriesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const category: QuestionCategory = JSON.parse(content);
-        categories.push(category);
+      for (const file of [...layered.keys()].sort()) {
+        const layer = layered.get(file)!;
+        categories.push(await this.readCategory(path.join(layer.path, file), layer.origin, optionSources));
+      }
+
+      for (const pack of this.packs) {
+        for (const file of (await this.listCategoryFiles(pack.questionsPath, true)).sort()) {
+          const packCategory = await this.readCategory(path.join(pack.questionsPath, file), getPackOrigin(pack), optionSources);
+          const existing = categories.find(category => category.category === packCategory.category);
+          if (existing) {
+            existing.questions.push(...packCategory.questions);
+          } else {
+            categories.push(packCategory);
+          }
+        }
       }
 
       return categories.sort((a, b) => a.order - b.order);
@@ -48,6 +113,60 @@ export class QuestionLoader {
     }
   }
 
+  private async listCategoryFiles(categoriesPath: string, required: boolean): Promise<string[]> {
+    try {
+      const files = await fs.readdir(categoriesPath);
+      return files.filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if (required) {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  // Values of the named option sources; formats include those of the packs
+  private async loadOptionSources(): Promise<OptionSources> {
+    const formatRegistry = createFormatRegistry();
+    for (const pack of this.packs) {
+      await formatRegistry.loadPlugins(pack.formats, pack.rootPath, getPackOrigin(pack));
+    }
+    return { formats: formatRegistry.ids() };
+  }
+
+  private async readCategory(filePath: string, origin: string, optionSources: OptionSources): Promise<QuestionCategory> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const category: QuestionCategory = JSON.parse(content);
+    category.questions = category.questions.map(question => ({ ...this.resolveOptions(question, optionSources), origin }));
+    return category;
+  }
+
+  private resolveOptions(question: Question, optionSources: OptionSources): Question {
+    if (!question.optionsFrom) {
+      return question;
+    }
+    const sourceOptions = optionSources[question.optionsFrom];
+    return {
+      ...question,
+      options: [...sourceOptions, ...(question.options || []).filter(option => !sourceOptions.includes(option))]
+    };
+  }
+
+  // Conditions may only read answers to known questions, compared with values those questions offer
+  private validateConditions(questions: Question[]): void {
+    const answersType = getAnswersType(questions);
+
+    for (const question of questions) {
+      if (question.when === undefined) {
+        continue;
+      }
+      const problems = validateCondition(question.when, answersType);
+      if (problems.length > 0) {
+        throw new Error(`Invalid "when" condition for question "${question.id}": ${problems.join('; ')}`);
+      }
+    }
+  }
+
   private flattenQuestions(categories: QuestionCategory[]): Question[] {
     const questions: Question[] = [];
     
@@ -64,6 +183,11 @@ export class QuestionLoader {
     const map = new Map<string, Question>();
     
     for (const question of questions) {
+      // Answers are keyed by question id, so packs cannot reuse one
+      const existing = map.get(question.id);
+      if (existing) {
+        throw new Error(`Duplicate question id "${question.id}" (${existing.origin} and ${question.origin})`);
+      }
       map.set(question.id, question);
     }
     
@@ -1,3 +1,5 @@
+import { Condition } from '../../../core/expressions/Condition.js';
+
 export interface QuestionCategory {
   category: string;
   title: string;
@@ -11,10 +13,17 @@ export interface Question {
   text: string;
   type: 'single' | 'multiple' | 'boolean' | 'text';
   options?: string[];
+  // Named source whose values are prepended to `options` at load time
+  optionsFrom?: 'formats';
   default?: any;
+  // Question ids that must have a truthy answer before this question is asked
   dependencies?: string[];
+  // Condition over the answers so far, keyed by question id, e.g. `uiFramework != "none"`
+  when?: Condition;
   required: boolean;
   description?: string;
+  // Set at load time: 'built-in', 'user', 'project' or the pack, e.g. acme-rules@1.2.0
+  origin?: string;
 }
 
 export interface LoadedQuestions {